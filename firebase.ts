@@ -15,6 +15,66 @@ namespace esp8266 {
     export let firebasePath = "iot" // Default path
     //% blockHidden=true
     export let firebaseDataSent = false
+    //% blockHidden=true
+    export let firebaseLastStatus = 0
+
+    // Updates collected between "begin Firebase batch" and "commit Firebase batch"
+    let batchActive = false
+    let batchPaths: string[] = []
+    let batchValues: string[] = []
+
+    // Query for the next query read, see firebaseQueryOrderBy
+    let queryOrderBy = ""
+    let queryParams = ""
+    let queryRangeNames: string[] = []
+    let queryRangeValues: string[] = []
+
+    // Credentials sent as ?auth=: a legacy database secret or a signed-in user's ID token
+    let firebaseDatabaseSecret = ""
+    let firebaseIdToken = ""
+    let firebaseRefreshToken = ""
+    let firebaseTokenExpiresAt = 0
+    let firebaseUid = ""
+
+    // Refresh the ID token this long before it expires
+    const TOKEN_REFRESH_MARGIN = 300000
+
+    /**
+     * Timestamp added to device data sent to Firebase
+     */
+    export enum FirebaseTimestamp {
+        //% block="none"
+        None,
+        //% block="device time"
+        Device,
+        //% block="server time"
+        Server
+    }
+
+    /**
+     * Range filter of a Firebase query
+     */
+    export enum FirebaseRange {
+        //% block="start at"
+        StartAt,
+        //% block="end at"
+        EndAt,
+        //% block="equal to"
+        EqualTo
+    }
+
+    /**
+     * Limit of a Firebase query
+     */
+    export enum FirebaseLimit {
+        //% block="first"
+        First,
+        //% block="last"
+        Last
+    }
+
+    // Timestamp added to SWITCH, DIMMER and SENSOR sends
+    let firebaseTimestamp = FirebaseTimestamp.None
 
     // ==================== FIREBASE HELPER FUNCTIONS ====================
     // Helper: Extract host from Firebase URL
@@ -40,96 +100,84 @@ namespace esp8266 {
         return path
     }
 
-    // Helper: Extract JSON body from HTTP response
-    function extractJsonFromResponse(response: string): string {
-        // Find +IPD marker
-        let ipdIndex = response.indexOf("+IPD")
-        if (ipdIndex == -1) return ""
-
-        // Find colon after +IPD (marks start of HTTP response)
-        let colonIndex = response.indexOf(":", ipdIndex)
-        if (colonIndex == -1) return ""
-
-        // Get everything after the colon
-        let httpData = response.substr(colonIndex + 1)
-
-        // Find HTTP body (after headers)
-        let bodyStart = httpData.indexOf("\r\n\r\n")
-        if (bodyStart != -1) {
-            httpData = httpData.substr(bodyStart + 4)
-        } else {
-            // Alternative: find first { if no clear header separation
-            let jsonStart = httpData.indexOf("{")
-            if (jsonStart != -1) {
-                httpData = httpData.substr(jsonStart)
-            }
+    // Helper: Validate WiFi connection and Firebase configuration
+    function firebaseReady(): boolean {
+        firebaseLastStatus = 0
+        if (!waitForWifi()) {
+            error(EspError.WifiDown)
+            return false
         }
-
-        // Check if response is null
-        if (httpData.includes("null")) return "null"
-
-        // Find JSON object start
-        let braceIndex = httpData.indexOf("{")
-        if (braceIndex == -1) return ""
-
-        return httpData.substr(braceIndex)
+        if (firebaseDatabaseURL == "") {
+            error(EspError.FirebaseNotConfigured)
+            return false
+        }
+        return true
     }
 
-    // Helper: Extract value from JSON string
-    function extractValueFromJson(jsonData: string): string {
-        if (jsonData == "" || jsonData == "null") return ""
-
-        // Look for "value": field
-        let valueIndex = jsonData.indexOf("\"value\"")
-        if (valueIndex == -1) return ""
+    // Helper: REST URL of a database path, with credentials if there are any
+    function firebaseUrl(path: string): string {
+        let url = "https://" + extractHost(firebaseDatabaseURL) + "/" + cleanPath(path) + ".json"
+        let auth = firebaseAuthToken()
+        return auth == "" ? url : url + "?auth=" + auth
+    }
 
-        // Find the colon after "value"
-        let colonIndex = jsonData.indexOf(":", valueIndex)
-        if (colonIndex == -1) return ""
+    // Helper: Send one request to the Firebase host, query is "a=1&b=2" or ""
+    function firebaseRequest(method: string, path: string, jsonData: string, query: string = ""): HttpResponse {
+        let url = firebaseUrl(path)
+        if (query != "") url += (url.indexOf("?") >= 0 ? "&" : "?") + query
+        httpExchange(method, url, jsonData, "application/json", new HttpHeaders())
+        firebaseLastStatus = lastHttpResponse.statusCode
+        return lastHttpResponse
+    }
 
-        // Start after the colon
-        let startIndex = colonIndex + 1
-        let valueStr = jsonData.substr(startIndex)
+    // Helper: Path of a child below firebasePath
+    function childPath(path: string): string {
+        path = cleanPath(path)
+        return path == "" ? firebasePath : firebasePath + "/" + path
+    }
 
-        // Skip whitespace
-        while (valueStr.length > 0 && (valueStr.charAt(0) == " " || valueStr.charAt(0) == "\t" || valueStr.charAt(0) == "\r" || valueStr.charAt(0) == "\n")) {
-            valueStr = valueStr.substr(1)
+    // Helper: Add the chosen timestamp as "waktu" (milliseconds since 1970) to a device
+    function withTimestamp(device: JsonObject): JsonObject {
+        if (firebaseTimestamp == FirebaseTimestamp.Server) {
+            // Filled in by Firebase when the write arrives
+            device.setRaw("waktu", "{\".sv\":\"timestamp\"}")
+        } else if (firebaseTimestamp == FirebaseTimestamp.Device && isTimeSynced()) {
+            device.setRaw("waktu", unixMillisText())
         }
+        return device
+    }
 
-        if (valueStr.length == 0) return ""
-
-        // Determine if value is string or number
-        let firstChar = valueStr.charAt(0)
-        let endIndex = 0
-
-        if (firstChar == "\"") {
-            // String value - find closing quote
-            valueStr = valueStr.substr(1)
-            endIndex = valueStr.indexOf("\"")
-            if (endIndex == -1) endIndex = valueStr.length
-            return valueStr.substr(0, endIndex)
+    // Helper: Add one path of a multi-path update to the batch
+    function batchSet(path: string, json: string) {
+        let index = batchPaths.indexOf(path)
+        if (index >= 0) {
+            batchValues[index] = json
         } else {
-            // Number or boolean - find delimiter
-            for (let i = 0; i < valueStr.length; i++) {
-                let char = valueStr.charAt(i)
-                if (char == "," || char == "}" || char == " " || char == "\r" || char == "\n" || char == "\t") {
-                    endIndex = i
-                    break
-                }
-            }
-            if (endIndex == 0) endIndex = valueStr.length
-
-            let result = valueStr.substr(0, endIndex)
-            // Trim any remaining whitespace
-            while (result.length > 0 && (result.charAt(result.length - 1) == " " || result.charAt(result.length - 1) == "\r" || result.charAt(result.length - 1) == "\n")) {
-                result = result.substr(0, result.length - 1)
-            }
-            return result
+            batchPaths.push(path)
+            batchValues.push(json)
         }
     }
 
-    // Helper: Parse string to number
-    function parseStringToNumber(valueStr: string): number {
+    // Helper: Add each field of a device to the batch, false if no batch is open
+    function batchDevice(deviceName: string, device: JsonObject): boolean {
+        if (!batchActive) return false
+        forEachJsonMember(device.toString(), (key, value) => batchSet(deviceName + "/" + key, value))
+        return true
+    }
+
+    // Helper: Read a child and return its JSON text, "" on failure
+    function readFirebaseRaw(path: string): string {
+        if (!firebaseReady()) return ""
+        let response = firebaseRequest("GET", childPath(path), "")
+        if (!response.isSuccess()) return ""
+        return jsonValueText(response.body)
+    }
+
+    /**
+     * Parse string to number
+     */
+    //% blockHidden=true
+    export function parseStringToNumber(valueStr: string): number {
         // Parse string to number
         let result = 0
         let isNegative = false
@@ -199,52 +247,13 @@ namespace esp8266 {
     //% block="Firebase read value of %deviceName"
     //% deviceName.defl="temperature"
     export function readFirebaseValue(deviceName: string): number {
-        // Validate WiFi connection
-        if (!isWifiConnected()) return 0
-
-        // Validate Firebase configuration
-        if (firebaseDatabaseURL == "" || firebaseApiKey == "") return 0
-
-        // Build full path
-        let fullPath = cleanPath(firebasePath + "/" + deviceName)
-        let host = extractHost(firebaseDatabaseURL)
-
-        // Connect to Firebase via SSL
-        if (!sendCommand("AT+CIPSTART=\"SSL\",\"" + host + "\",443", "OK", 3000)) {
-            return 0
-        }
-
-        // Build GET request
-        let requestPath = "/" + fullPath + ".json?auth=" + firebaseApiKey
-        let httpRequest = "GET " + requestPath + " HTTP/1.1\r\n"
-        httpRequest += "Host: " + host + "\r\n"
-        httpRequest += "Connection: close\r\n"
-        httpRequest += "\r\n"
-
-        // Send request
-        if (!sendCommand("AT+CIPSEND=" + httpRequest.length, "OK")) {
-            sendCommand("AT+CIPCLOSE", "OK", 1000)
-            return 0
-        }
-
-        sendCommand(httpRequest, null, 100)
-
-        // Wait for response
-        let response = getResponse("", 3000)
-
-        // Close connection
-        sendCommand("AT+CIPCLOSE", "OK", 500)
-
-        // Validate response
-        if (response == "") return 0
-
-        // Extract JSON from HTTP response
-        let jsonData = extractJsonFromResponse(response)
+        // Request device node over SSL
+        let jsonData = readFirebaseRaw(deviceName)
         if (jsonData == "" || jsonData == "null") return 0
 
-        // Extract value field from JSON as STRING
-        let valueStr = extractValueFromJson(jsonData)
-        if (valueStr == "") return 0
+        // Value field of the device node, quoted or not
+        let valueStr = unquoteJson(jsonLookup(jsonData, "value"))
+        if (valueStr == "" || valueStr == "null") return 0
 
         // Parse string to number
         return parseStringToNumber(valueStr)
@@ -271,55 +280,11 @@ namespace esp8266 {
     export function sendFirebaseData(path: string, jsonData: string) {
         firebaseDataSent = false
 
-        // Validate WiFi connection
-        if (!isWifiConnected()) return
-
-        // Validate Firebase configuration
-        if (firebaseDatabaseURL == "" || firebaseApiKey == "") return
-
-        // Clean path and extract host
-        path = cleanPath(path)
-        let host = extractHost(firebaseDatabaseURL)
-
-        // Connect to Firebase
-        if (!sendCommand("AT+CIPSTART=\"SSL\",\"" + host + "\",443", "OK", 3000)) {
-            return
-        }
-
-        // Build PATCH request (updates without overwriting)
-        let requestPath = "/" + path + ".json?auth=" + firebaseApiKey
-        let httpRequest = "PATCH " + requestPath + " HTTP/1.1\r\n"
-        httpRequest += "Host: " + host + "\r\n"
-        httpRequest += "Content-Type: application/json\r\n"
-        httpRequest += "Content-Length: " + jsonData.length + "\r\n"
-        httpRequest += "Connection: close\r\n"
-        httpRequest += "\r\n"
-        httpRequest += jsonData
-
-        // Send request
-        if (!sendCommand("AT+CIPSEND=" + httpRequest.length, "OK")) {
-            sendCommand("AT+CIPCLOSE", "OK", 1000)
-            return
-        }
-
-        sendCommand(httpRequest, null, 100)
+        if (!firebaseReady()) return
 
-        // Wait for SEND OK
-        if (getResponse("SEND OK", 1500) == "") {
-            sendCommand("AT+CIPCLOSE", "OK", 500)
-            return
-        }
-
-        // Check response status
-        let response = getResponse("", 1500)
-
-        // Check if response contains 200 OK
-        if (response != "" && response.includes("200")) {
-            firebaseDataSent = true
-        }
-
-        // Close connection
-        sendCommand("AT+CIPCLOSE", "OK", 500)
+        // PATCH updates without overwriting
+        let response = firebaseRequest("PATCH", path, jsonData)
+        firebaseDataSent = response.isSuccess()
     }
 
     /**
@@ -333,6 +298,19 @@ namespace esp8266 {
         return firebaseDataSent
     }
 
+    /**
+     * Add a timestamp to SWITCH, DIMMER and SENSOR data: the synced network time
+     * of the device, or the time Firebase receives the write
+     */
+    //% subcategory="Firebase"
+    //% weight=24
+    //% blockGap=8
+    //% blockId=esp8266_firebase_timestamp
+    //% block="Firebase timestamp on device data %mode"
+    export function firebaseSetTimestamp(mode: FirebaseTimestamp) {
+        firebaseTimestamp = mode
+    }
+
     /**
      * Send SWITCH data to Firebase.
      */
@@ -345,8 +323,9 @@ namespace esp8266 {
     //% deviceName.defl="lampu"
     export function firebaseSendSwitch(deviceName: string, value: number) {
         let val = value == 1 ? 1 : 0
-        let json = "{\"" + deviceName + "\":{\"tipe\":\"switch\",\"value\":" + val + "}}"
-        sendFirebaseData(firebasePath, json)
+        let device = withTimestamp(new JsonObject().setString("tipe", "switch").setNumber("value", val))
+        if (batchDevice(deviceName, device)) return
+        sendFirebaseData(firebasePath, new JsonObject().setRaw(deviceName, device.toString()).toString())
     }
 
     /**
@@ -360,8 +339,9 @@ namespace esp8266 {
     //% value.min=0 value.max=1024
     //% deviceName.defl="lampu"
     export function firebaseSendDimmer(deviceName: string, value: number) {
-        let json = "{\"" + deviceName + "\":{\"tipe\":\"dimmer\",\"value\":" + value + ",\"batas_atas\":1024}}"
-        sendFirebaseData(firebasePath, json)
+        let device = withTimestamp(new JsonObject().setString("tipe", "dimmer").setNumber("value", value).setNumber("batas_atas", 1024))
+        if (batchDevice(deviceName, device)) return
+        sendFirebaseData(firebasePath, new JsonObject().setRaw(deviceName, device.toString()).toString())
     }
 
     /**
@@ -376,7 +356,816 @@ namespace esp8266 {
     //% unit.defl="C"
     //% deviceName.defl="suhu"
     export function firebaseSendSensor(deviceName: string, value: number, unit: string) {
-        let json = "{\"" + deviceName + "\":{\"tipe\":\"sensor\",\"value\":" + value + ",\"satuan\":\"" + unit + "\"}}"
-        sendFirebaseData(firebasePath, json)
+        let device = withTimestamp(new JsonObject().setString("tipe", "sensor").setNumber("value", value).setString("satuan", unit))
+        if (batchDevice(deviceName, device)) return
+        // Kept in the offline queue when Firebase cannot be reached
+        firebaseDataSent = sendOrQueue(UploadKind.FirebaseSensor, deviceName, device.toString())
+    }
+
+    /**
+     * Read any child below the Firebase path as text, e.g. "lampu/tipe"
+     */
+    //% subcategory="Firebase"
+    //% weight=20
+    //% blockGap=8
+    //% blockId=esp8266_read_firebase_string
+    //% block="Firebase read TEXT of %path"
+    //% path.defl="lampu/tipe"
+    export function readFirebaseString(path: string): string {
+        let json = readFirebaseRaw(path)
+        return json == "null" ? "" : unquoteJson(json)
+    }
+
+    /**
+     * Read any child below the Firebase path as true/false (true, "true" or a non-zero number)
+     */
+    //% subcategory="Firebase"
+    //% weight=19
+    //% blockGap=8
+    //% blockId=esp8266_read_firebase_boolean
+    //% block="Firebase read BOOLEAN of %path"
+    //% path.defl="lampu/value"
+    export function readFirebaseBoolean(path: string): boolean {
+        let json = readFirebaseRaw(path)
+        if (json == "true" || json == "\"true\"") return true
+        if (json == "" || json == "false" || json == "null" || json.charAt(0) == "\"") return false
+        return parseStringToNumber(json) != 0
+    }
+
+    /**
+     * Read any child below the Firebase path as raw JSON ("null" if missing)
+     */
+    //% subcategory="Firebase"
+    //% weight=18
+    //% blockGap=8
+    //% blockId=esp8266_read_firebase_json
+    //% block="Firebase read JSON of %path"
+    //% path.defl="lampu"
+    export function readFirebaseJson(path: string): string {
+        return readFirebaseRaw(path)
+    }
+
+    /**
+     * Replace a node below the Firebase path (PUT)
+     */
+    //% subcategory="Firebase"
+    //% weight=17
+    //% blockGap=8
+    //% blockId=esp8266_firebase_set
+    //% block="Firebase set %path|to JSON %jsonData"
+    //% path.defl="lampu"
+    //% jsonData.defl="{\"tipe\":\"switch\",\"value\":0}"
+    export function firebaseSet(path: string, jsonData: string): boolean {
+        if (!firebaseReady()) return false
+        return firebaseRequest("PUT", childPath(path), jsonData).isSuccess()
+    }
+
+    /**
+     * Append an entry below a node (POST) and return the key Firebase generated
+     */
+    //% subcategory="Firebase"
+    //% weight=16
+    //% blockGap=8
+    //% blockId=esp8266_firebase_push
+    //% block="Firebase push to %path|JSON %jsonData"
+    //% path.defl="log"
+    //% jsonData.defl="{\"suhu\":25}"
+    export function firebasePush(path: string, jsonData: string): string {
+        if (!firebaseReady()) return ""
+        let response = firebaseRequest("POST", childPath(path), jsonData)
+        if (!response.isSuccess()) return ""
+
+        // Answer: {"name":"-N1a2b3c..."}
+        return unquoteJson(jsonMember(response.body, "name"))
+    }
+
+    /**
+     * Remove a node below the Firebase path
+     */
+    //% subcategory="Firebase"
+    //% weight=15
+    //% blockGap=8
+    //% blockId=esp8266_firebase_delete
+    //% block="Firebase delete %path"
+    //% path.defl="log"
+    export function firebaseDelete(path: string): boolean {
+        if (!firebaseReady()) return false
+        return firebaseRequest("DELETE", childPath(path), "").isSuccess()
+    }
+
+    /**
+     * HTTP status of the last Firebase operation, 0 if it never reached the server
+     */
+    //% subcategory="Firebase"
+    //% weight=14
+    //% blockId=esp8266_firebase_last_status
+    //% block="Firebase last status code"
+    export function firebaseStatusCode(): number {
+        return firebaseLastStatus
+    }
+
+    // ==================== FIREBASE BATCH ====================
+    /**
+     * Collect the following SWITCH, DIMMER and SENSOR sends instead of sending each one
+     */
+    //% subcategory="Firebase"
+    //% weight=1
+    //% blockGap=8
+    //% blockId=esp8266_firebase_begin_batch
+    //% block="begin Firebase batch"
+    export function firebaseBeginBatch() {
+        batchActive = true
+        batchPaths = []
+        batchValues = []
+    }
+
+    /**
+     * Add a raw JSON value for a path below the Firebase path to the batch
+     */
+    //% subcategory="Firebase"
+    //% weight=0
+    //% blockGap=8
+    //% blockId=esp8266_firebase_batch_set
+    //% block="Firebase batch set %path|to JSON %jsonData"
+    //% path.defl="status/pesan"
+    //% jsonData.defl="\"ok\""
+    export function firebaseBatchSet(path: string, jsonData: string) {
+        if (!batchActive) firebaseBeginBatch()
+        batchSet(cleanPath(path), jsonData)
+    }
+
+    /**
+     * Send everything collected since "begin Firebase batch" as one multi-path PATCH
+     */
+    //% subcategory="Firebase"
+    //% weight=-1
+    //% blockId=esp8266_firebase_commit_batch
+    //% block="commit Firebase batch"
+    export function firebaseCommitBatch(): boolean {
+        batchActive = false
+        let updates = new JsonObject()
+        for (let i = 0; i < batchPaths.length; i++) {
+            updates.setRaw(batchPaths[i], batchValues[i])
+        }
+        batchPaths = []
+        batchValues = []
+
+        // {"suhu/value":25,"suhu/tipe":"sensor","lampu/value":1,...}
+        if (updates.isEmpty()) {
+            firebaseDataSent = true
+            return true
+        }
+        sendFirebaseData(firebasePath, updates.toString())
+        return firebaseDataSent
+    }
+
+    // ==================== FIREBASE QUERIES ====================
+    // Helper: JSON form of a query value: numbers and booleans as they are, text quoted
+    function queryValue(value: string): string {
+        if (value == "true" || value == "false" || value == "null") return value
+        let isNumber = value != ""
+        for (let i = 0; i < value.length; i++) {
+            let char = value.charAt(i)
+            if (!(char >= "0" && char <= "9") && char != "." && !(char == "-" && i == 0)) isNumber = false
+        }
+        return isNumber ? value : jsonQuote(value)
+    }
+
+    // Helper: Run the staged query; keys and values come back in query order
+    function runQuery(path: string, keys: string[], values: string[]): boolean {
+        let orderBy = queryOrderBy
+        let query = queryParams
+        let rangeNames = queryRangeNames
+        let rangeValues = queryRangeValues
+        queryOrderBy = ""
+        queryParams = ""
+        queryRangeNames = []
+        queryRangeValues = []
+
+        // Filters and limits need an order, the key order needs no index
+        if (orderBy == "" && (query != "" || rangeNames.length > 0)) orderBy = "$key"
+
+        // Keys are always text, so a range on "$key" must be quoted even if it looks like a number
+        for (let i = 0; i < rangeNames.length; i++) {
+            let value = orderBy == "$key" ? jsonQuote(rangeValues[i]) : queryValue(rangeValues[i])
+            query += "&" + rangeNames[i] + "=" + urlEncode(value)
+        }
+        if (orderBy != "") query = "orderBy=" + urlEncode(jsonQuote(orderBy)) + query
+
+        if (!firebaseReady()) return false
+        let response = firebaseRequest("GET", childPath(path), "", query)
+        if (!response.isSuccess()) return false
+        forEachJsonMember(response.body, (key, value) => {
+            keys.push(key)
+            values.push(value)
+        })
+
+        // The REST API returns objects unsorted, so sort by the ordered field
+        for (let i = 1; i < keys.length; i++) {
+            let j = i
+            while (j > 0 && compareEntries(orderBy, keys[j - 1], values[j - 1], keys[j], values[j]) > 0) {
+                let key = keys[j]
+                keys[j] = keys[j - 1]
+                keys[j - 1] = key
+                let value = values[j]
+                values[j] = values[j - 1]
+                values[j - 1] = value
+                j--
+            }
+        }
+        return true
+    }
+
+    // Helper: Compare two entries the way the query ordered them
+    function compareEntries(orderBy: string, keyA: string, valueA: string, keyB: string, valueB: string): number {
+        if (orderBy == "" || orderBy == "$key" || orderBy == "$priority") {
+            return keyA < keyB ? -1 : (keyA > keyB ? 1 : 0)
+        }
+        let a = orderBy == "$value" ? valueA : jsonMember(valueA, orderBy)
+        let b = orderBy == "$value" ? valueB : jsonMember(valueB, orderBy)
+        let numberA = parseStringToNumber(a)
+        let numberB = parseStringToNumber(b)
+        if (numberA != numberB) return numberA < numberB ? -1 : 1
+        return a < b ? -1 : (a > b ? 1 : 0)
+    }
+
+    /**
+     * Order the next query read by "$key", "$value" or a child such as "value"
+     */
+    //% subcategory="Firebase"
+    //% weight=7
+    //% blockGap=8
+    //% blockId=esp8266_firebase_query_order_by
+    //% block="Firebase query order by %child"
+    //% child.defl="$key"
+    export function firebaseQueryOrderBy(child: string) {
+        queryOrderBy = child
+    }
+
+    /**
+     * Filter the next query read by the ordered field.
+     * Keys are compared as text, so numbers are quoted when ordering by "$key".
+     */
+    //% subcategory="Firebase"
+    //% weight=6
+    //% blockGap=8
+    //% blockId=esp8266_firebase_query_range
+    //% block="Firebase query %range|%value"
+    //% value.defl="0"
+    export function firebaseQueryRange(range: FirebaseRange, value: string) {
+        let name = range == FirebaseRange.StartAt ? "startAt" : (range == FirebaseRange.EndAt ? "endAt" : "equalTo")
+        // Encoded by runQuery, which knows the order by then
+        queryRangeNames.push(name)
+        queryRangeValues.push(value)
+    }
+
+    /**
+     * Limit the next query read to the first or last entries
+     */
+    //% subcategory="Firebase"
+    //% weight=5
+    //% blockGap=8
+    //% blockId=esp8266_firebase_query_limit
+    //% block="Firebase query limit to %limit|%count"
+    //% count.defl=10
+    export function firebaseQueryLimit(limit: FirebaseLimit, count: number) {
+        queryParams += "&" + (limit == FirebaseLimit.First ? "limitToFirst=" : "limitToLast=") + count
+    }
+
+    /**
+     * Run the query on a child below the Firebase path and return the keys found
+     */
+    //% subcategory="Firebase"
+    //% weight=4
+    //% blockGap=8
+    //% blockId=esp8266_firebase_query_keys
+    //% block="Firebase query keys of %path"
+    //% path.defl="log"
+    export function firebaseQueryKeys(path: string): string[] {
+        let keys: string[] = []
+        let values: string[] = []
+        runQuery(path, keys, values)
+        return keys
+    }
+
+    /**
+     * Run the query on a child below the Firebase path and return the numbers found.
+     * Objects give their "value", or else the child they are ordered by.
+     */
+    //% subcategory="Firebase"
+    //% weight=3
+    //% blockGap=8
+    //% blockId=esp8266_firebase_query_numbers
+    //% block="Firebase query numbers of %path"
+    //% path.defl="log"
+    export function firebaseQueryNumbers(path: string): number[] {
+        let orderBy = queryOrderBy
+        let keys: string[] = []
+        let values: string[] = []
+        let numbers: number[] = []
+        runQuery(path, keys, values)
+        for (let i = 0; i < values.length; i++) {
+            let value = values[i]
+            if (value.charAt(0) == "{") {
+                let sample = jsonMember(value, "value")
+                value = sample == "" && orderBy.charAt(0) != "$" ? jsonMember(value, orderBy) : sample
+            }
+            numbers.push(parseStringToNumber(unquoteJson(value)))
+        }
+        return numbers
+    }
+
+    /**
+     * Names of the children of a node without downloading them (shallow read)
+     */
+    //% subcategory="Firebase"
+    //% weight=2
+    //% blockId=esp8266_firebase_list_keys
+    //% block="Firebase list keys of %path"
+    //% path.defl=""
+    export function firebaseListKeys(path: string): string[] {
+        let keys: string[] = []
+        if (!firebaseReady()) return keys
+        let response = firebaseRequest("GET", childPath(path), "", "shallow=true")
+        if (!response.isSuccess()) return keys
+        forEachJsonMember(response.body, (key, value) => keys.push(key))
+        keys.sort((a, b) => a < b ? -1 : (a > b ? 1 : 0))
+        return keys
+    }
+
+    // ==================== FIREBASE LISTENER ====================
+    // Streams changes below firebasePath (Accept: text/event-stream) on its
+    // own link. The ESP8266 has a single SSL connection, so other HTTPS
+    // requests close the stream and it is opened again shortly after.
+    let streamWanted = false
+    let streamOpen = false
+    let streamFiberStarted = false
+    let streamRedirect = ""
+    let streamRetryAt = 0
+    let streamLastData = 0
+    let streamHeadersDone = false
+    let streamChunked = false
+    let streamChunkLeft = 0
+    let streamRaw = ""
+    let streamText = ""
+    let streamEventName = ""
+    let streamEventData = ""
+    // Last value passed to the handler per device, so the snapshot sent
+    // after every reconnect only reports what changed in between
+    let reportedDevices: string[] = []
+    let reportedValues: number[] = []
+    let valueChangedHandler: (device: string, value: number) => void = null
+
+    // Firebase sends a keep-alive event every 30 seconds
+    const STREAM_SILENCE_TIMEOUT = 70000
+    const STREAM_RELEASE_DELAY = 2000
+    const STREAM_MIN_BACKOFF = 1000
+    const STREAM_MAX_BACKOFF = 30000
+
+    // Helper: Pass one device value to the user handler if it differs from the last one
+    function reportDeviceValue(device: string, rawValue: string) {
+        let index = reportedDevices.indexOf(device)
+        if (rawValue == "" || rawValue == "null") {
+            // Deleted, so the device is reported again once it comes back
+            if (index >= 0) {
+                reportedDevices.removeAt(index)
+                reportedValues.removeAt(index)
+            }
+            return
+        }
+        let value = parseStringToNumber(unquoteJson(rawValue))
+        if (index >= 0) {
+            if (reportedValues[index] == value) return
+            reportedValues[index] = value
+        } else {
+            reportedDevices.push(device)
+            reportedValues.push(value)
+        }
+        if (valueChangedHandler) control.inBackground(() => valueChangedHandler(device, value))
+    }
+
+    // Helper: Walk a change below firebasePath down to device values.
+    // Devices look like {"tipe":"switch","value":1}, plain values work too.
+    function handleStreamChange(path: string, data: string) {
+        let segments = path.split("/").filter(segment => segment != "")
+        if (segments.length == 0) {
+            forEachJsonMember(data, (key, value) => handleStreamChange(key, value))
+        } else if (segments.length == 1) {
+            reportDeviceValue(segments[0], data.charAt(0) == "{" ? jsonMember(data, "value") : data)
+        } else if (segments.length == 2 && segments[1] == "value") {
+            reportDeviceValue(segments[0], data)
+        }
+    }
+
+    // Helper: Act on a complete server-sent event
+    function dispatchStreamEvent() {
+        let name = streamEventName
+        let data = streamEventData
+        streamEventName = ""
+        streamEventData = ""
+
+        if (name == "put" || name == "patch") {
+            // data: {"path":"/lampu","data":{...}}
+            handleStreamChange(unquoteJson(jsonMember(data, "path")), jsonMember(data, "data"))
+        } else if (name == "cancel") {
+            // Security rules no longer allow reading the path
+            error(EspError.ConnectFailed, "Firebase listener cancelled")
+            closeStream()
+            streamRetryAt = input.runningTime() + STREAM_MAX_BACKOFF
+        } else if (name == "auth_revoked") {
+            closeStream()
+        }
+    }
+
+    // Helper: Value of an SSE field line such as "event: put"
+    function streamField(line: string, nameLength: number): string {
+        let value = line.substr(nameLength)
+        return value.charAt(0) == " " ? value.substr(1) : value
+    }
+
+    // Helper: Move complete chunk data from the raw body to the event text
+    function dechunkStream() {
+        while (streamRaw.length > 0) {
+            if (streamChunkLeft > 0) {
+                let take = streamChunkLeft < streamRaw.length ? streamChunkLeft : streamRaw.length
+                streamText += streamRaw.substr(0, take)
+                streamRaw = streamRaw.substr(take)
+                streamChunkLeft -= take
+            } else {
+                // Size line, or the empty line that ends a chunk
+                let lineEnd = streamRaw.indexOf("\r\n")
+                if (lineEnd < 0) return
+                let line = streamRaw.substr(0, lineEnd)
+                streamRaw = streamRaw.substr(lineEnd + 2)
+                if (line != "") streamChunkLeft = parseHex(line)
+            }
+        }
+    }
+
+    // Helper: Check the response headers, then parse events line by line
+    function processStream() {
+        if (!streamHeadersDone) {
+            let headersEnd = streamRaw.indexOf("\r\n\r\n")
+            if (headersEnd < 0) return
+            let response = parseHttpResponse(streamRaw.substr(0, headersEnd + 4))
+            streamRaw = streamRaw.substr(headersEnd + 4)
+            streamHeadersDone = true
+
+            // Firebase may send the stream to another server first
+            let location = response.header("location")
+            if (response.statusCode >= 300 && response.statusCode < 400 && location != "") {
+                closeStream()
+                streamRedirect = location
+                return
+            }
+            if (response.statusCode != 200) {
+                error(EspError.HttpStatus, "Firebase listener " + response.statusCode + " " + response.reason)
+                closeStream()
+                streamRetryAt = input.runningTime() + STREAM_MAX_BACKOFF
+                return
+            }
+            streamChunked = response.header("transfer-encoding").toLowerCase().indexOf("chunked") >= 0
+        }
+
+        if (streamChunked) {
+            dechunkStream()
+        } else {
+            streamText += streamRaw
+            streamRaw = ""
+        }
+
+        // An empty line ends an event
+        let lineEnd = streamText.indexOf("\n")
+        while (lineEnd >= 0 && streamOpen) {
+            let line = streamText.substr(0, lineEnd)
+            streamText = streamText.substr(lineEnd + 1)
+            if (line.charAt(line.length - 1) == "\r") line = line.substr(0, line.length - 1)
+            if (line == "") {
+                dispatchStreamEvent()
+            } else if (line.indexOf("event:") == 0) {
+                streamEventName = streamField(line, 6)
+            } else if (line.indexOf("data:") == 0) {
+                streamEventData += streamField(line, 5)
+            }
+            lineEnd = streamText.indexOf("\n")
+        }
+    }
+
+    // Helper: Collect data of the listener link
+    function onStreamData(link: number, data: string) {
+        if (link != FIREBASE_STREAM_LINK) return
+        streamRaw += data
+        streamLastData = input.runningTime()
+    }
+
+    // Helper: Notice when Firebase or the module closes the listener link
+    function onStreamClosed(link: number) {
+        if (link == FIREBASE_STREAM_LINK) streamOpen = false
+    }
+
+    // Helper: Open the listener link and send the streaming request
+    function openStream(): boolean {
+        streamHeadersDone = false
+        streamChunkLeft = 0
+        streamRaw = ""
+        streamText = ""
+        streamEventName = ""
+        streamEventData = ""
+
+        // Built here so that a fresh ID token is used on every reconnect
+        let target = parseUrl(streamRedirect != "" ? streamRedirect : firebaseUrl(firebasePath))
+        let request = "GET " + target.path + " HTTP/1.1\r\n"
+        request += "Host: " + target.host + "\r\n"
+        request += "Accept: text/event-stream\r\n\r\n"
+
+        // MQTT over SSL keeps the module's single SSL connection
+        if (target.isHttps && mqttHoldsSsl()) {
+            error(EspError.TlsFailed, "SSL connection in use by MQTT")
+            return false
+        }
+
+        lockUart()
+        if (!enableMultiConnection()) {
+            unlockUart()
+            error(EspError.ConnectFailed, "Firebase listener needs AT+CIPMUX=1")
+            return false
+        }
+        atCommand(closeCommand(FIREBASE_STREAM_LINK))
+        if (target.isHttps) releasePooledSsl()
+        let connectType = target.isHttps ? "SSL" : "TCP"
+        let response = atCommand("AT+CIPSTART=" + FIREBASE_STREAM_LINK + ",\"" + connectType + "\",\"" + target.host + "\"," + target.port, "CONNECT", 10000)
+        let sent = false
+        if (response.ok()) {
+            if (atCommand("AT+CIPSEND=" + FIREBASE_STREAM_LINK + "," + utf8Length(request), ">", 2000).ok()) {
+                serial.writeString(request)
+                sent = getResponse("SEND OK", 3000).indexOf("SEND OK") >= 0
+            }
+            if (!sent) atCommand(closeCommand(FIREBASE_STREAM_LINK))
+        }
+        unlockUart()
+
+        if (!response.ok()) {
+            reportConnectError(response, target.isHttps, target.host)
+            return false
+        }
+        if (!sent) {
+            error(EspError.SendFailed, target.host)
+            return false
+        }
+        streamOpen = true
+        streamLastData = input.runningTime()
+        return true
+    }
+
+    // Helper: Close the listener link; the fiber opens it again if still wanted
+    function closeStream() {
+        streamRedirect = ""
+        if (!streamOpen) return
+        streamOpen = false
+        runAtCommand(closeCommand(FIREBASE_STREAM_LINK))
+    }
+
+    // Helper: Background fiber that reads events and keeps the stream open
+    function startStreamFiber() {
+        if (streamFiberStarted) return
+        streamFiberStarted = true
+        addLinkDataListener(onStreamData)
+        addLinkClosedListener(onStreamClosed)
+        control.inBackground(() => {
+            let backoff = STREAM_MIN_BACKOFF
+            while (true) {
+                if (streamOpen) {
+                    processStream()
+                    if (streamOpen && input.runningTime() - streamLastData > STREAM_SILENCE_TIMEOUT) {
+                        closeStream()
+                    }
+                } else if (streamWanted && isWifiConnected() && input.runningTime() >= streamRetryAt) {
+                    if (openStream()) {
+                        backoff = STREAM_MIN_BACKOFF
+                    } else {
+                        streamRetryAt = input.runningTime() + backoff
+                        backoff = Math.min(backoff * 2, STREAM_MAX_BACKOFF)
+                    }
+                }
+                basic.pause(100)
+            }
+        })
+    }
+
+    /**
+     * Close the Firebase listener so the single SSL connection is free for a request.
+     * Caller must hold the UART (see lockUart).
+     */
+    //% blockHidden=true
+    export function releaseSslLink() {
+        if (!streamOpen) return
+        streamOpen = false
+        atCommand(closeCommand(FIREBASE_STREAM_LINK))
+        streamRetryAt = input.runningTime() + STREAM_RELEASE_DELAY
+    }
+
+    /**
+     * Listen for changes below the Firebase path instead of reading in a loop.
+     * Every device is reported once at the start, then only when its value changes.
+     * The stream is opened again whenever it closes.
+     */
+    //% subcategory="Firebase"
+    //% weight=23
+    //% blockGap=8
+    //% blockId=esp8266_firebase_start_listener
+    //% block="Firebase start listening for changes"
+    export function startFirebaseListener() {
+        if (!esp8266Initialized) {
+            error(EspError.NotInitialized)
+            return
+        }
+        if (firebaseDatabaseURL == "") {
+            error(EspError.FirebaseNotConfigured)
+            return
+        }
+        streamRedirect = ""
+        streamRetryAt = 0
+        reportedDevices = []
+        reportedValues = []
+        streamWanted = true
+        startStreamFiber()
+    }
+
+    /**
+     * Run code when the value of a device below the Firebase path changes
+     */
+    //% subcategory="Firebase"
+    //% weight=22
+    //% blockGap=8
+    //% blockId=esp8266_on_firebase_value_changed
+    //% block="on Firebase value changed"
+    //% draggableParameters="reporter"
+    export function onFirebaseValueChanged(handler: (device: string, value: number) => void) {
+        valueChangedHandler = handler
+    }
+
+    /**
+     * Stop listening for Firebase changes
+     */
+    //% subcategory="Firebase"
+    //% weight=21
+    //% blockId=esp8266_firebase_stop_listener
+    //% block="Firebase stop listening"
+    export function stopFirebaseListener() {
+        streamWanted = false
+        closeStream()
+    }
+
+    // ==================== FIREBASE AUTH ====================
+    // Helper: Keep the tokens from a sign-in or refresh answer
+    function storeTokens(idToken: string, refreshToken: string, expiresIn: string, uid: string): boolean {
+        if (idToken == "") return false
+        firebaseIdToken = idToken
+        if (refreshToken != "") firebaseRefreshToken = refreshToken
+        if (uid != "") firebaseUid = uid
+        let seconds = parseDigits(expiresIn)
+        firebaseTokenExpiresAt = input.runningTime() + (seconds > 0 ? seconds : 3600) * 1000
+        return true
+    }
+
+    // Helper: Report why the Identity Toolkit refused, e.g. INVALID_PASSWORD
+    function reportAuthError(response: HttpResponse) {
+        let message = unquoteJson(jsonMember(jsonMember(response.body, "error"), "message"))
+        error(EspError.FirebaseAuthFailed, message != "" ? message : "HTTP " + response.statusCode)
+    }
+
+    // Helper: Call an Identity Toolkit sign-in endpoint and keep the tokens
+    function identityToolkitSignIn(endpoint: string, jsonData: string): boolean {
+        if (firebaseApiKey == "") {
+            error(EspError.FirebaseNotConfigured, "API key")
+            return false
+        }
+        if (!waitForWifi()) {
+            error(EspError.WifiDown)
+            return false
+        }
+        let url = "https://identitytoolkit.googleapis.com/v1/accounts:" + endpoint + "?key=" + firebaseApiKey
+        httpExchange("POST", url, jsonData, "application/json", new HttpHeaders())
+        let response = lastHttpResponse
+        let body = response.body
+        if (!response.isSuccess() || !storeTokens(unquoteJson(jsonMember(body, "idToken")), unquoteJson(jsonMember(body, "refreshToken")),
+            unquoteJson(jsonMember(body, "expiresIn")), unquoteJson(jsonMember(body, "localId")))) {
+            reportAuthError(response)
+            return false
+        }
+        return true
+    }
+
+    // Helper: Exchange the refresh token for a new ID token
+    function refreshIdToken(): boolean {
+        let url = "https://securetoken.googleapis.com/v1/token?key=" + firebaseApiKey
+        let form = "grant_type=refresh_token&refresh_token=" + urlEncode(firebaseRefreshToken)
+        httpExchange("POST", url, form, "application/x-www-form-urlencoded", new HttpHeaders())
+        let response = lastHttpResponse
+        let body = response.body
+        if (!response.isSuccess() || !storeTokens(unquoteJson(jsonMember(body, "id_token")), unquoteJson(jsonMember(body, "refresh_token")),
+            unquoteJson(jsonMember(body, "expires_in")), unquoteJson(jsonMember(body, "user_id")))) {
+            reportAuthError(response)
+            return false
+        }
+        return true
+    }
+
+    /**
+     * ID token of the signed-in user, refreshed when it is about to expire; "" if none
+     */
+    //% blockHidden=true
+    export function firebaseUserToken(): string {
+        if (firebaseIdToken == "") return ""
+        if (firebaseRefreshToken != "" && input.runningTime() > firebaseTokenExpiresAt - TOKEN_REFRESH_MARGIN) {
+            // On failure keep the old token, it may still be valid for a while
+            refreshIdToken()
+        }
+        return firebaseIdToken
+    }
+
+    // Helper: Value for ?auth=, the database secret wins over a signed-in user
+    function firebaseAuthToken(): string {
+        if (firebaseDatabaseSecret != "") return firebaseDatabaseSecret
+        return firebaseUserToken()
+    }
+
+    /**
+     * Sign in with a Firebase Authentication email/password user (needs the API key)
+     */
+    //% subcategory="Firebase"
+    //% weight=13
+    //% blockGap=8
+    //% blockId=esp8266_firebase_sign_in_email
+    //% block="Firebase sign in|email %email|password %password"
+    //% email.defl="device@example.com"
+    //% password.defl="password"
+    export function firebaseSignInEmail(email: string, password: string): boolean {
+        let json = new JsonObject().setString("email", email).setString("password", password).setBoolean("returnSecureToken", true)
+        return identityToolkitSignIn("signInWithPassword", json.toString())
+    }
+
+    /**
+     * Sign in as a new anonymous Firebase Authentication user (needs the API key)
+     */
+    //% subcategory="Firebase"
+    //% weight=12
+    //% blockGap=8
+    //% blockId=esp8266_firebase_sign_in_anonymous
+    //% block="Firebase sign in anonymously"
+    export function firebaseSignInAnonymously(): boolean {
+        return identityToolkitSignIn("signUp", new JsonObject().setBoolean("returnSecureToken", true).toString())
+    }
+
+    /**
+     * Use a legacy database secret instead of a signed-in user
+     */
+    //% subcategory="Firebase"
+    //% weight=11
+    //% blockGap=8
+    //% blockId=esp8266_firebase_database_secret
+    //% block="Firebase use database secret %secret"
+    //% secret.defl=""
+    export function firebaseUseDatabaseSecret(secret: string) {
+        firebaseDatabaseSecret = secret
+    }
+
+    /**
+     * Forget the signed-in user and the database secret
+     */
+    //% subcategory="Firebase"
+    //% weight=10
+    //% blockGap=8
+    //% blockId=esp8266_firebase_sign_out
+    //% block="Firebase sign out"
+    export function firebaseSignOut() {
+        firebaseDatabaseSecret = ""
+        firebaseIdToken = ""
+        firebaseRefreshToken = ""
+        firebaseTokenExpiresAt = 0
+        firebaseUid = ""
+    }
+
+    /**
+     * Check if a user is signed in
+     */
+    //% subcategory="Firebase"
+    //% weight=9
+    //% blockGap=8
+    //% blockId=esp8266_firebase_is_signed_in
+    //% block="Firebase signed in"
+    export function firebaseIsSignedIn(): boolean {
+        return firebaseIdToken != ""
+    }
+
+    /**
+     * User id (uid) of the signed-in user, "" if none
+     */
+    //% subcategory="Firebase"
+    //% weight=8
+    //% blockId=esp8266_firebase_user_id
+    //% block="Firebase user id"
+    export function firebaseUserId(): string {
+        return firebaseUid
     }
 }
@@ -0,0 +1,267 @@
+/**
+ * Cloud Firestore REST support for the project set with "Firebase config".
+ * Fields are collected with the set blocks and sent by the next create or update;
+ * a read keeps the document's fields for the get blocks.
+ */
+namespace esp8266 {
+    // ==================== FIRESTORE VARIABLES ====================
+    let stagedNames: string[] = []
+    let stagedValues: string[] = []
+    let documentFields = ""
+    let firestoreLastStatus = 0
+
+    // ==================== FIRESTORE HELPER FUNCTIONS ====================
+    // Helper: Remember a typed value for the next create or update
+    function stageField(name: string, typedValue: string) {
+        let index = stagedNames.indexOf(name)
+        if (index >= 0) {
+            stagedValues[index] = typedValue
+        } else {
+            stagedNames.push(name)
+            stagedValues.push(typedValue)
+        }
+    }
+
+    // Helper: {"fields":{...}} of the staged values, which are then forgotten
+    function takeStagedDocument(): string {
+        let fields = new JsonObject()
+        for (let i = 0; i < stagedNames.length; i++) {
+            fields.setRaw(stagedNames[i], stagedValues[i])
+        }
+        stagedNames = []
+        stagedValues = []
+        return new JsonObject().setRaw("fields", fields.toString()).toString()
+    }
+
+    // Helper: Send one request for a path below the documents root
+    function firestoreRequest(method: string, path: string, query: string, jsonData: string): HttpResponse {
+        firestoreLastStatus = 0
+        lastHttpResponse = new HttpResponse("")
+        if (!waitForWifi()) {
+            error(EspError.WifiDown)
+            return lastHttpResponse
+        }
+        if (firebaseProjectId == "") {
+            error(EspError.FirebaseNotConfigured, "project ID")
+            return lastHttpResponse
+        }
+
+        // Signed-in users send their ID token, otherwise only the API key identifies the project
+        let headers = new HttpHeaders()
+        let token = firebaseUserToken()
+        if (token != "") {
+            headers.set("Authorization", "Bearer " + token)
+        } else if (firebaseApiKey != "") {
+            query = query == "" ? "key=" + firebaseApiKey : query + "&key=" + firebaseApiKey
+        }
+
+        if (path.charAt(0) == "/") path = path.substr(1)
+        let url = "https://firestore.googleapis.com/v1/projects/" + firebaseProjectId + "/databases/(default)/documents/" + path
+        if (query != "") url += "?" + query
+        httpExchange(method, url, jsonData, "application/json", headers)
+        firestoreLastStatus = lastHttpResponse.statusCode
+        return lastHttpResponse
+    }
+
+    // Helper: Field path of a field name; names other than plain identifiers go in backticks
+    function fieldPath(name: string): string {
+        let plain = name != "" && !(name.charAt(0) >= "0" && name.charAt(0) <= "9")
+        for (let i = 0; i < name.length && plain; i++) {
+            let char = name.charAt(i)
+            plain = char == "_" || (char >= "a" && char <= "z") || (char >= "A" && char <= "Z") || (char >= "0" && char <= "9")
+        }
+        if (plain) return name
+
+        let quoted = "`"
+        for (let i = 0; i < name.length; i++) {
+            let char = name.charAt(i)
+            if (char == "`" || char == "\\") quoted += "\\"
+            quoted += char
+        }
+        return quoted + "`"
+    }
+
+    // Helper: Typed value object of a field of the last read document
+    function documentField(field: string): string {
+        return jsonMember(documentFields, field)
+    }
+
+    // ==================== FIRESTORE PUBLIC API ====================
+    /**
+     * Set a number field for the next create or update
+     */
+    //% subcategory="Firestore"
+    //% weight=100
+    //% blockGap=8
+    //% block="Firestore set field %field|to number %value"
+    //% field.defl="suhu"
+    export function firestoreSetNumber(field: string, value: number) {
+        // Whole numbers are sent as int64, which Firestore writes as a string
+        if (value == Math.floor(value)) {
+            stageField(field, new JsonObject().setString("integerValue", "" + value).toString())
+        } else {
+            stageField(field, new JsonObject().setNumber("doubleValue", value).toString())
+        }
+    }
+
+    /**
+     * Set a text field for the next create or update
+     */
+    //% subcategory="Firestore"
+    //% weight=99
+    //% blockGap=8
+    //% block="Firestore set field %field|to text %value"
+    //% field.defl="status"
+    //% value.defl="ok"
+    export function firestoreSetString(field: string, value: string) {
+        stageField(field, new JsonObject().setString("stringValue", value).toString())
+    }
+
+    /**
+     * Set a true/false field for the next create or update
+     */
+    //% subcategory="Firestore"
+    //% weight=98
+    //% blockGap=8
+    //% block="Firestore set field %field|to boolean %value"
+    //% field.defl="lampu"
+    export function firestoreSetBoolean(field: string, value: boolean) {
+        stageField(field, new JsonObject().setBoolean("booleanValue", value).toString())
+    }
+
+    /**
+     * Set a timestamp field from Unix seconds for the next create or update
+     */
+    //% subcategory="Firestore"
+    //% weight=97
+    //% block="Firestore set field %field|to timestamp %unixSeconds"
+    //% field.defl="waktu"
+    export function firestoreSetTimestamp(field: string, unixSeconds: number) {
+        stageField(field, new JsonObject().setString("timestampValue", isoTimestamp(unixSeconds)).toString())
+    }
+
+    /**
+     * Create a document with the set fields and return its id.
+     * Leave the id empty to let Firestore pick one.
+     */
+    //% subcategory="Firestore"
+    //% weight=90
+    //% blockGap=8
+    //% block="Firestore create document in %collection|id %documentId"
+    //% collection.defl="sensor"
+    //% documentId.defl=""
+    export function firestoreCreate(collection: string, documentId: string): string {
+        let query = documentId != "" ? "documentId=" + urlEncode(documentId) : ""
+        let response = firestoreRequest("POST", collection, query, takeStagedDocument())
+        if (!response.isSuccess()) return ""
+
+        // "name": "projects/<id>/databases/(default)/documents/sensor/<document id>"
+        let name = unquoteJson(jsonMember(response.body, "name")).split("/")
+        return name[name.length - 1]
+    }
+
+    /**
+     * Change only the set fields of a document, e.g. "sensor/kelas1".
+     * Missing documents are created.
+     */
+    //% subcategory="Firestore"
+    //% weight=89
+    //% blockGap=8
+    //% block="Firestore update document %documentPath"
+    //% documentPath.defl="sensor/kelas1"
+    export function firestoreUpdate(documentPath: string): boolean {
+        // The field mask keeps all other fields of the document
+        let mask = ""
+        for (let i = 0; i < stagedNames.length; i++) {
+            if (i > 0) mask += "&"
+            mask += "updateMask.fieldPaths=" + urlEncode(fieldPath(stagedNames[i]))
+        }
+        return firestoreRequest("PATCH", documentPath, mask, takeStagedDocument()).isSuccess()
+    }
+
+    /**
+     * Read a document; its fields are then available with the get blocks
+     */
+    //% subcategory="Firestore"
+    //% weight=88
+    //% blockGap=8
+    //% block="Firestore read document %documentPath"
+    //% documentPath.defl="sensor/kelas1"
+    export function firestoreRead(documentPath: string): boolean {
+        let response = firestoreRequest("GET", documentPath, "", "")
+        documentFields = response.isSuccess() ? jsonMember(response.body, "fields") : ""
+        return response.isSuccess()
+    }
+
+    /**
+     * Delete a document
+     */
+    //% subcategory="Firestore"
+    //% weight=87
+    //% block="Firestore delete document %documentPath"
+    //% documentPath.defl="sensor/kelas1"
+    export function firestoreDelete(documentPath: string): boolean {
+        return firestoreRequest("DELETE", documentPath, "", "").isSuccess()
+    }
+
+    /**
+     * Number field of the last read document, 0 if missing
+     */
+    //% subcategory="Firestore"
+    //% weight=80
+    //% blockGap=8
+    //% block="Firestore number %field"
+    //% field.defl="suhu"
+    export function firestoreGetNumber(field: string): number {
+        let value = documentField(field)
+        let number = jsonMember(value, "integerValue")
+        if (number == "") number = jsonMember(value, "doubleValue")
+        return jsonToNumber(number)
+    }
+
+    /**
+     * Text field of the last read document, "" if missing
+     */
+    //% subcategory="Firestore"
+    //% weight=79
+    //% blockGap=8
+    //% block="Firestore text %field"
+    //% field.defl="status"
+    export function firestoreGetString(field: string): string {
+        return unquoteJson(jsonMember(documentField(field), "stringValue"))
+    }
+
+    /**
+     * True/false field of the last read document, false if missing
+     */
+    //% subcategory="Firestore"
+    //% weight=78
+    //% blockGap=8
+    //% block="Firestore boolean %field"
+    //% field.defl="lampu"
+    export function firestoreGetBoolean(field: string): boolean {
+        return jsonMember(documentField(field), "booleanValue") == "true"
+    }
+
+    /**
+     * Timestamp field of the last read document as Unix seconds, 0 if missing
+     */
+    //% subcategory="Firestore"
+    //% weight=77
+    //% blockGap=8
+    //% block="Firestore timestamp %field"
+    //% field.defl="waktu"
+    export function firestoreGetTimestamp(field: string): number {
+        return parseIsoTimestamp(unquoteJson(jsonMember(documentField(field), "timestampValue")))
+    }
+
+    /**
+     * HTTP status of the last Firestore operation, 0 if it never reached the server
+     */
+    //% subcategory="Firestore"
+    //% weight=76
+    //% block="Firestore last status code"
+    export function firestoreStatusCode(): number {
+        return firestoreLastStatus
+    }
+}
@@ -5,6 +5,31 @@
 
 namespace esp8266 {
     
+    // ==================== HTTP VARIABLES ====================
+    //% blockHidden=true
+    export let httpTimeout = 10000
+    //% blockHidden=true
+    export let httpIdleTimeout = 3000
+    //% blockHidden=true
+    export let followRedirects = false
+    //% blockHidden=true
+    export let maxRedirects = 5
+
+    // Connections kept open for later requests, least recently used first
+    let keepAlive = false
+    let poolListening = false
+    let pool: PooledConnection[] = []
+
+    /**
+     * Which requests a header applies to
+     */
+    export enum HeaderScope {
+        //% block="next request"
+        NextRequest,
+        //% block="all requests"
+        AllRequests
+    }
+
     // ==================== HELPER FUNCTIONS ====================
     
     /**
@@ -50,34 +75,590 @@ namespace esp8266 {
         
         return {host: host, path: path, isHttps: isHttps, port: port}
     }
-    
+
     /**
-     * Core HTTP request function
+     * Percent-encode a query or form value, non-ASCII text as its UTF-8 bytes
      */
     //% blockHidden=true
-    export function httpRequest(
+    export function urlEncode(text: string): string {
+        let hex = "0123456789ABCDEF"
+        let result = ""
+        for (let i = 0; i < text.length; i++) {
+            let char = text.charAt(i)
+            let code = text.charCodeAt(i)
+            if ((code >= 48 && code <= 57) || (code >= 65 && code <= 90) || (code >= 97 && code <= 122) || "-_.~".indexOf(char) >= 0) {
+                result += char
+            } else {
+                let bytes = control.createBufferFromUTF8(char)
+                for (let j = 0; j < bytes.length; j++) {
+                    result += "%" + hex.charAt((bytes[j] >> 4) & 15) + hex.charAt(bytes[j] & 15)
+                }
+            }
+        }
+        return result
+    }
+
+    // ==================== RESPONSE OBJECT ====================
+
+    /**
+     * Parsed HTTP response: status, headers and clean body
+     */
+    export class HttpResponse {
+        raw: string
+        statusCode: number
+        reason: string
+        headerNames: string[]
+        headerValues: string[]
+        body: string
+        timedOut: boolean
+
+        constructor(raw: string) {
+            this.raw = raw
+            this.statusCode = 0
+            this.reason = ""
+            this.headerNames = []
+            this.headerValues = []
+            this.body = ""
+            this.timedOut = false
+        }
+
+        /**
+         * Get header value by name (case-insensitive), "" if missing
+         */
+        header(name: string): string {
+            let key = name.toLowerCase()
+            for (let i = 0; i < this.headerNames.length; i++) {
+                if (this.headerNames[i] == key) return this.headerValues[i]
+            }
+            return ""
+        }
+
+        isSuccess(): boolean {
+            return this.statusCode >= 200 && this.statusCode < 300
+        }
+    }
+
+    /**
+     * Response of the most recent HTTP request
+     */
+    //% blockHidden=true
+    export let lastHttpResponse = new HttpResponse("")
+
+    // ==================== RESPONSE DECODER ====================
+    // Shared by the HTTP and Firebase functions
+
+    /**
+     * Parse hexadecimal digits (chunk sizes), stopping at the first other character
+     */
+    //% blockHidden=true
+    export function parseHex(str: string): number {
+        let value = 0
+        for (let i = 0; i < str.length; i++) {
+            let code = str.charCodeAt(i)
+            if (code >= 48 && code <= 57) {
+                value = value * 16 + (code - 48)
+            } else if (code >= 65 && code <= 70) {
+                value = value * 16 + (code - 55)
+            } else if (code >= 97 && code <= 102) {
+                value = value * 16 + (code - 87)
+            } else {
+                break
+            }
+        }
+        return value
+    }
+
+    // Helper: Split transcript into +IPD payload and the AT text around the frames.
+    // With a link id, frames of other links are left out.
+    function scanIpdFrames(raw: string, link: number): {payload: string, outside: string} {
+        let ipdIndex = raw.indexOf("+IPD,")
+        if (ipdIndex < 0) return {payload: raw, outside: ""}
+
+        let payload = ""
+        let outside = raw.substr(0, ipdIndex)
+        while (ipdIndex >= 0) {
+            let colonIndex = raw.indexOf(":", ipdIndex)
+            if (colonIndex < 0) break
+
+            // "+IPD,<len>:", "+IPD,<id>,<len>:" and either with ",<ip>,<port>" appended
+            let fields = raw.substr(ipdIndex + 5, colonIndex - ipdIndex - 5).split(",")
+            let hasLink = fields.length == 2 || fields.length == 4
+            let wanted = link < 0 || !hasLink || parseDigits(fields[0]) == link
+
+            // The declared length counts bytes, the text holds decoded characters
+            let dataStart = colonIndex + 1
+            let length = utf8Chars(raw.substr(dataStart), parseDigits(hasLink ? fields[1] : fields[0]))
+            if (wanted) payload += raw.substr(dataStart, length)
+
+            let next = dataStart + length
+            ipdIndex = raw.indexOf("+IPD,", next)
+            outside += ipdIndex >= 0 ? raw.substr(next, ipdIndex - next) : raw.substr(next)
+        }
+        return {payload: payload, outside: outside}
+    }
+
+    /**
+     * Reassemble the payload of every +IPD frame using the declared lengths.
+     * Pass a link id to keep only that link's frames in multi-connection mode.
+     */
+    //% blockHidden=true
+    export function decodeIpdPayload(raw: string, link: number = -1): string {
+        return scanIpdFrames(raw, link).payload
+    }
+
+    /**
+     * Decode a "Transfer-Encoding: chunked" body
+     */
+    //% blockHidden=true
+    export function decodeChunked(data: string): string {
+        let body = ""
+        let pos = 0
+        while (pos < data.length) {
+            let lineEnd = data.indexOf("\r\n", pos)
+            if (lineEnd < 0) break
+            let size = parseHex(data.substr(pos, lineEnd - pos))
+            if (size == 0) break
+            body += data.substr(lineEnd + 2, size)
+            pos = lineEnd + 2 + size + 2
+        }
+        return body
+    }
+
+    // Helper: Check if a chunked body has reached its zero-size chunk
+    function isChunkedComplete(data: string): boolean {
+        let pos = 0
+        while (pos < data.length) {
+            let lineEnd = data.indexOf("\r\n", pos)
+            if (lineEnd < 0) return false
+            let size = parseHex(data.substr(pos, lineEnd - pos))
+            if (size == 0) return data.indexOf("\r\n\r\n", lineEnd) >= 0
+            pos = lineEnd + 2 + size + 2
+        }
+        return false
+    }
+
+    // Helper: Fill status, headers and body from decoded HTTP data
+    function parseHttpData(response: HttpResponse, data: string) {
+        let httpIndex = data.indexOf("HTTP/1.")
+        if (httpIndex < 0) {
+            // No status line: keep whatever looks like a body
+            let jsonStart = data.indexOf("{")
+            response.body = jsonStart >= 0 ? data.substr(jsonStart) : ""
+            return
+        }
+        data = data.substr(httpIndex)
+
+        // Status line: "HTTP/1.1 200 OK"
+        let lineEnd = data.indexOf("\r\n")
+        if (lineEnd < 0) lineEnd = data.length
+        let statusLine = data.substr(0, lineEnd)
+        let firstSpace = statusLine.indexOf(" ")
+        if (firstSpace >= 0) {
+            response.statusCode = parseDigits(statusLine.substr(firstSpace + 1, 3))
+            response.reason = statusLine.substr(firstSpace + 5)
+        }
+
+        // Header lines until the empty line
+        let headersEnd = data.indexOf("\r\n\r\n")
+        let headerBlock = headersEnd >= 0 ? data.substr(lineEnd + 2, headersEnd - lineEnd - 2) : data.substr(lineEnd + 2)
+        let lines = headerBlock.split("\r\n")
+        for (let i = 0; i < lines.length; i++) {
+            let colonIndex = lines[i].indexOf(":")
+            if (colonIndex <= 0) continue
+            let value = lines[i].substr(colonIndex + 1)
+            while (value.length > 0 && value.charAt(0) == " ") {
+                value = value.substr(1)
+            }
+            response.headerNames.push(lines[i].substr(0, colonIndex).toLowerCase())
+            response.headerValues.push(value)
+        }
+
+        if (headersEnd >= 0) {
+            let body = data.substr(headersEnd + 4)
+            if (response.header("transfer-encoding").toLowerCase().indexOf("chunked") >= 0) {
+                body = decodeChunked(body)
+            }
+            response.body = body
+        }
+    }
+
+    /**
+     * Parse a raw ESP8266 transcript into an HttpResponse
+     */
+    //% blockHidden=true
+    export function parseHttpResponse(raw: string, link: number = -1): HttpResponse {
+        let response = new HttpResponse(raw)
+        parseHttpData(response, decodeIpdPayload(raw, link))
+        return response
+    }
+
+    // Helper: Check if the transcript holds a complete HTTP response
+    function isResponseComplete(raw: string, link: number): boolean {
+        let frames = scanIpdFrames(raw, link)
+
+        // ESP8266 reports the server closing the link
+        let closed = link >= 0 ? link + ",CLOSED" : "CLOSED"
+        if (frames.outside.indexOf(closed) >= 0) return true
+
+        let data = frames.payload
+        let httpIndex = data.indexOf("HTTP/1.")
+        if (httpIndex < 0) return false
+        data = data.substr(httpIndex)
+        let headersEnd = data.indexOf("\r\n\r\n")
+        if (headersEnd < 0) return false
+
+        let response = new HttpResponse(raw)
+        parseHttpData(response, data.substr(0, headersEnd + 4))
+
+        // Bodyless responses
+        if (response.statusCode == 204 || response.statusCode == 304) return true
+
+        let body = data.substr(headersEnd + 4)
+        let contentLength = response.header("content-length")
+        if (contentLength != "") {
+            return utf8Length(body) >= parseDigits(contentLength)
+        }
+        if (response.header("transfer-encoding").toLowerCase().indexOf("chunked") >= 0) {
+            return isChunkedComplete(body)
+        }
+        return false
+    }
+
+    // ==================== REQUEST HEADERS ====================
+
+    /**
+     * Set of HTTP request headers (names compared case-insensitively)
+     */
+    export class HttpHeaders {
+        names: string[]
+        values: string[]
+
+        constructor() {
+            this.names = []
+            this.values = []
+        }
+
+        /**
+         * Add or replace a header
+         */
+        set(name: string, value: string) {
+            let index = this.indexOf(name)
+            if (index >= 0) {
+                this.names[index] = name
+                this.values[index] = value
+            } else {
+                this.names.push(name)
+                this.values.push(value)
+            }
+        }
+
+        /**
+         * Get header value, "" if missing
+         */
+        get(name: string): string {
+            let index = this.indexOf(name)
+            return index >= 0 ? this.values[index] : ""
+        }
+
+        /**
+         * Copy every header of another set into this one
+         */
+        addAll(other: HttpHeaders) {
+            for (let i = 0; i < other.names.length; i++) {
+                this.set(other.names[i], other.values[i])
+            }
+        }
+
+        /**
+         * Remove a header if present
+         */
+        remove(name: string) {
+            let index = this.indexOf(name)
+            if (index >= 0) {
+                this.names.splice(index, 1)
+                this.values.splice(index, 1)
+            }
+        }
+
+        clear() {
+            this.names = []
+            this.values = []
+        }
+
+        /**
+         * Header lines ready to be placed in a request
+         */
+        toLines(): string {
+            let lines = ""
+            for (let i = 0; i < this.names.length; i++) {
+                lines += this.names[i] + ": " + this.values[i] + "\r\n"
+            }
+            return lines
+        }
+
+        private indexOf(name: string): number {
+            let key = name.toLowerCase()
+            for (let i = 0; i < this.names.length; i++) {
+                if (this.names[i].toLowerCase() == key) return i
+            }
+            return -1
+        }
+    }
+
+    /**
+     * Headers sent with every request
+     */
+    //% blockHidden=true
+    export let defaultHeaders = new HttpHeaders()
+
+    /**
+     * Headers sent with the next request only
+     */
+    //% blockHidden=true
+    export let nextRequestHeaders = new HttpHeaders()
+
+    const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+
+    /**
+     * Encode text as Base64
+     */
+    //% blockHidden=true
+    export function base64Encode(text: string): string {
+        // Encode the UTF-8 bytes, so credentials with non-ASCII characters work
+        let bytes = control.createBufferFromUTF8(text)
+        let result = ""
+        for (let i = 0; i < bytes.length; i += 3) {
+            let b0 = bytes[i]
+            let b1 = i + 1 < bytes.length ? bytes[i + 1] : 0
+            let b2 = i + 2 < bytes.length ? bytes[i + 2] : 0
+
+            result += BASE64_CHARS.charAt(b0 >> 2)
+            result += BASE64_CHARS.charAt(((b0 & 0x03) << 4) | (b1 >> 4))
+            result += i + 1 < bytes.length ? BASE64_CHARS.charAt(((b1 & 0x0f) << 2) | (b2 >> 6)) : "="
+            result += i + 2 < bytes.length ? BASE64_CHARS.charAt(b2 & 0x3f) : "="
+        }
+        return result
+    }
+
+    // Helper: Header set for the given scope
+    function headersFor(scope: HeaderScope): HttpHeaders {
+        return scope == HeaderScope.AllRequests ? defaultHeaders : nextRequestHeaders
+    }
+
+    // Helper: Reuse the last parsed response when given its raw transcript
+    function responseFor(raw: string): HttpResponse {
+        if (raw == lastHttpResponse.raw) return lastHttpResponse
+        return parseHttpResponse(raw)
+    }
+
+    // Helper: Check if status code is a redirect
+    function isRedirect(code: number): boolean {
+        return code == 301 || code == 302 || code == 303 || code == 307 || code == 308
+    }
+
+    /**
+     * Resolve a Location header against the URL that returned it
+     */
+    //% blockHidden=true
+    export function resolveUrl(baseUrl: string, location: string): string {
+        if (location.indexOf("http://") == 0 || location.indexOf("https://") == 0) {
+            return location
+        }
+
+        let base = parseUrl(baseUrl)
+        let protocol = base.isHttps ? "https:" : "http:"
+        if (location.indexOf("//") == 0) {
+            return protocol + location
+        }
+
+        let origin = protocol + "//" + base.host
+        if (base.port != (base.isHttps ? 443 : 80)) {
+            origin += ":" + base.port
+        }
+        if (location.charAt(0) == "/") {
+            return origin + location
+        }
+
+        // Relative to the directory of the current path
+        let dir = base.path
+        let queryIndex = dir.indexOf("?")
+        if (queryIndex >= 0) dir = dir.substr(0, queryIndex)
+        let lastSlash = 0
+        for (let i = 0; i < dir.length; i++) {
+            if (dir.charAt(i) == "/") lastSlash = i
+        }
+        return origin + dir.substr(0, lastSlash + 1) + location
+    }
+
+    /**
+     * Report why AT+CIPSTART failed
+     */
+    //% blockHidden=true
+    export function reportConnectError(response: AtResponse, isHttps: boolean, host: string) {
+        if (response.raw.indexOf("DNS Fail") >= 0) {
+            error(EspError.DnsFailed, host)
+        } else if (response.result == AtResult.Timeout) {
+            error(EspError.Timeout, host)
+        } else if (isHttps) {
+            error(EspError.TlsFailed, host)
+        } else {
+            error(EspError.ConnectFailed, host)
+        }
+    }
+
+    // ==================== CONNECTION POOL ====================
+    // Helper: Connection kept open for later requests to the same host and port
+    class PooledConnection {
+        host: string
+        port: number
+        isHttps: boolean
+        link: number
+
+        constructor(host: string, port: number, isHttps: boolean, link: number) {
+            this.host = host
+            this.port = port
+            this.isHttps = isHttps
+            this.link = link
+        }
+    }
+
+    // Helper: Forget a kept-open connection once the server or module closed it
+    function onPoolLinkClosed(link: number) {
+        for (let i = 0; i < pool.length; i++) {
+            if (pool[i].link == link) {
+                pool.removeAt(i)
+                return
+            }
+        }
+    }
+
+    // Helper: Close the link of a request, forgetting it if it was kept open.
+    // Caller holds the UART.
+    function closeLink(connection: PooledConnection, link: number) {
+        if (connection != null) {
+            let index = pool.indexOf(connection)
+            if (index >= 0) pool.removeAt(index)
+        }
+        atCommand(closeCommand(link))
+    }
+
+    // Helper: Kept-open connection to a host, marked as most recently used; null if none
+    function findPooled(host: string, port: number, isHttps: boolean): PooledConnection {
+        for (let i = 0; i < pool.length; i++) {
+            let connection = pool[i]
+            if (connection.host == host && connection.port == port && connection.isHttps == isHttps) {
+                pool.removeAt(i)
+                pool.push(connection)
+                return connection
+            }
+        }
+        return null
+    }
+
+    // Helper: Free link for a new kept-open connection, closing the least recently used
+    // one if all are taken. Links 0 and 1 belong to the web server while it runs.
+    function freePoolLink(): number {
+        let links = serverRunning ? [HTTP_LINK] : [HTTP_LINK, 1, 0]
+        for (let i = 0; i < links.length; i++) {
+            let taken = false
+            for (let j = 0; j < pool.length; j++) {
+                if (pool[j].link == links[i]) taken = true
+            }
+            if (!taken) return links[i]
+        }
+        let oldest = pool[0]
+        closeLink(oldest, oldest.link)
+        return oldest.link
+    }
+
+    // Helper: Connect a new kept-open connection, null after reporting the error.
+    // Caller holds the UART.
+    function openPooled(host: string, port: number, isHttps: boolean): PooledConnection {
+        if (!enableMultiConnection()) {
+            error(EspError.ConnectFailed, "keep-alive needs AT+CIPMUX=1")
+            return null
+        }
+        // The module has a single SSL connection
+        if (isHttps) releasePooledSsl()
+
+        let link = freePoolLink()
+        let connectionType = isHttps ? "SSL" : "TCP"
+        let response = atCommand("AT+CIPSTART=" + link + ",\"" + connectionType + "\",\"" + host + "\"," + port, "CONNECT", 10000)
+        if (!response.ok()) {
+            reportConnectError(response, isHttps, host)
+            return null
+        }
+        let connection = new PooledConnection(host, port, isHttps, link)
+        pool.push(connection)
+        return connection
+    }
+
+    /**
+     * Close the kept-open SSL connection so the single SSL connection is free.
+     * Caller must hold the UART (see lockUart).
+     */
+    //% blockHidden=true
+    export function releasePooledSsl() {
+        for (let i = 0; i < pool.length; i++) {
+            if (pool[i].isHttps) {
+                closeLink(pool[i], pool[i].link)
+                return
+            }
+        }
+    }
+
+    /**
+     * Single HTTP exchange: connect (or reuse a kept-open connection),
+     * send, read response, close. Holds the UART for the whole exchange.
+     */
+    //% blockHidden=true
+    export function httpExchange(
         method: string,
-        url: string, 
-        body: string = "",
-        contentType: string = "application/json"
+        url: string,
+        body: string,
+        contentType: string,
+        requestHeaders: HttpHeaders
     ): string {
-        if (!esp8266Initialized) return ""
-        if (!isWifiConnected()) return ""
+        // Give a reconnect in progress a moment before failing
+        waitForWifi()
+
+        lockUart()
+        let raw = exchange(method, url, body, contentType, requestHeaders)
+        unlockUart()
+        return raw
+    }
+
+    // Helper: HTTP exchange body, caller holds the UART
+    function exchange(
+        method: string,
+        url: string,
+        body: string,
+        contentType: string,
+        requestHeaders: HttpHeaders
+    ): string {
+        lastHttpResponse = new HttpResponse("")
+        if (!esp8266Initialized) {
+            error(EspError.NotInitialized)
+            return ""
+        }
+        if (!isWifiConnected()) {
+            error(EspError.WifiDown)
+            return ""
+        }
         
         // Parse URL
         let urlInfo = parseUrl(url)
         
         rxData = ""
-        serial.readString()
+        pollUart()
 
-        // Connect (TCP or SSL)
-        let connectionType = urlInfo.isHttps ? "SSL" : "TCP"
-        let connectCmd = "AT+CIPSTART=\"" + connectionType + "\",\"" + 
-                        urlInfo.host + "\"," + urlInfo.port
-        
-        if (!sendCommand(connectCmd, "CONNECT", 10000)) {
+        // The module has a single SSL connection, shared with the Firebase listener.
+        // MQTT over SSL keeps it, so HTTPS has to wait until MQTT disconnects.
+        if (urlInfo.isHttps && mqttHoldsSsl()) {
+            error(EspError.TlsFailed, "SSL connection in use by MQTT")
             return ""
         }
+        if (urlInfo.isHttps) releaseSslLink()
 
         // Build HTTP request
         let httpRequest = method + " " + urlInfo.path + " HTTP/1.1\r\n"
@@ -85,36 +666,281 @@ namespace esp8266 {
         
         // Add body if present (POST, PUT, PATCH)
         if (body != "") {
-            httpRequest += "Content-Type: " + contentType + "\r\n"
-            httpRequest += "Content-Length: " + body.length + "\r\n"
+            if (requestHeaders.get("Content-Type") == "") {
+                httpRequest += "Content-Type: " + contentType + "\r\n"
+            }
+            httpRequest += "Content-Length: " + utf8Length(body) + "\r\n"
         }
         
-        httpRequest += "Connection: close\r\n\r\n"
+        httpRequest += requestHeaders.toLines()
+        httpRequest += keepAlive ? "Connection: keep-alive\r\n\r\n" : "Connection: close\r\n\r\n"
         
         if (body != "") {
             httpRequest += body
         }
-        
-        // Send request
-        if (!sendCommand("AT+CIPSEND=" + httpRequest.length, ">", 5000)) {
-            sendCommand("AT+CIPCLOSE")
-            return ""
+
+        let connection: PooledConnection = null
+        let linkId = HTTP_LINK
+        let link = -1
+        let complete = false
+        while (true) {
+            // Reuse the connection kept open to this host, or connect (TCP or SSL)
+            let reused = false
+            if (keepAlive) {
+                connection = findPooled(urlInfo.host, urlInfo.port, urlInfo.isHttps)
+                reused = connection != null
+                if (!reused) connection = openPooled(urlInfo.host, urlInfo.port, urlInfo.isHttps)
+                if (connection == null) return ""
+                linkId = connection.link
+            } else {
+                let connectionType = urlInfo.isHttps ? "SSL" : "TCP"
+                let connectCmd = "AT+CIPSTART=" + linkArg(HTTP_LINK) + "\"" + connectionType + "\",\"" + 
+                                urlInfo.host + "\"," + urlInfo.port
+                
+                let connectResponse = atCommand(connectCmd, "CONNECT", 10000)
+                if (!connectResponse.ok()) {
+                    reportConnectError(connectResponse, urlInfo.isHttps, urlInfo.host)
+                    return ""
+                }
+            }
+            link = multiConnection ? linkId : -1
+
+            // Send request
+            if (!atCommand("AT+CIPSEND=" + linkArg(linkId) + utf8Length(httpRequest), ">", 5000).ok()) {
+                closeLink(connection, linkId)
+                // The server closed the kept-open connection since the last request
+                if (reused) continue
+                error(EspError.SendFailed, urlInfo.host)
+                return ""
+            }
+
+            serial.writeString(httpRequest)
+            
+            // Wait until the response is complete, the link closes or a timeout hits.
+            // The idle timeout only starts with the first response data: AT echoes
+            // such as "SEND OK" do not count, and slow servers may take a while.
+            let start = input.runningTime()
+            let lastDataTime = 0
+            let received = 0
+            complete = false
+            while (input.runningTime() - start < httpTimeout) {
+                let chunk = pollUart()
+                if (chunk != "") {
+                    rxData += chunk
+                    let payloadLength = rxData.indexOf("+IPD,") >= 0 ? decodeIpdPayload(rxData, link).length : 0
+                    if (payloadLength > received) {
+                        received = payloadLength
+                        lastDataTime = input.runningTime()
+                    }
+                    if (isResponseComplete(rxData, link)) {
+                        complete = true
+                        break
+                    }
+                } else if (lastDataTime > 0 && input.runningTime() - lastDataTime > httpIdleTimeout) {
+                    break
+                }
+                basic.pause(20)
+            }
+
+            // A kept-open connection that closed without answering: connect again and send once more
+            if (reused && decodeIpdPayload(rxData, link) == "") {
+                closeLink(connection, linkId)
+                continue
+            }
+            break
         }
 
-        serial.writeString(httpRequest)
-        
-        // Wait for response
-        let start = input.runningTime()
-        let timeout = urlInfo.isHttps ? 12000 : 8000
-        while (input.runningTime() - start < timeout) {
-            rxData += serial.readString()
-            basic.pause(200)
+        let raw = rxData
+        lastHttpResponse = parseHttpResponse(raw, link)
+        lastHttpResponse.timedOut = !complete
+
+        // Keep the connection only while both sides want it open
+        if (connection == null || !complete || pool.indexOf(connection) < 0 ||
+            lastHttpResponse.header("connection").toLowerCase() == "close") {
+            closeLink(connection, linkId)
         }
 
-        sendCommand("AT+CIPCLOSE")
-        return rxData
+        if (!complete) {
+            error(EspError.Timeout, urlInfo.host)
+        } else if (lastHttpResponse.statusCode >= 400) {
+            error(EspError.HttpStatus, "HTTP " + lastHttpResponse.statusCode + " " + lastHttpResponse.reason)
+        }
+        return raw
+    }
+
+    /**
+     * Core HTTP request function
+     */
+    //% blockHidden=true
+    export function httpRequest(
+        method: string,
+        url: string, 
+        body: string = "",
+        contentType: string = "application/json",
+        headers: HttpHeaders = null
+    ): string {
+        return httpRequestWithHeaders(method, url, body, contentType, takeRequestHeaders(headers), followRedirects)
+    }
+
+    /**
+     * Headers for a request: defaults, then one-shot headers, then explicit headers win
+     */
+    //% blockHidden=true
+    export function takeRequestHeaders(headers: HttpHeaders): HttpHeaders {
+        let requestHeaders = new HttpHeaders()
+        requestHeaders.addAll(defaultHeaders)
+        requestHeaders.addAll(nextRequestHeaders)
+        nextRequestHeaders.clear()
+        if (headers != null) requestHeaders.addAll(headers)
+        return requestHeaders
+    }
+
+    /**
+     * Run a request with its final header set, following redirects if asked to
+     */
+    //% blockHidden=true
+    export function httpRequestWithHeaders(
+        method: string,
+        url: string,
+        body: string,
+        contentType: string,
+        requestHeaders: HttpHeaders,
+        follow: boolean
+    ): string {
+        let raw = httpExchange(method, url, body, contentType, requestHeaders)
+
+        // Follow Location headers, switching host or protocol as needed
+        let hops = 0
+        while (follow && hops < maxRedirects && isRedirect(lastHttpResponse.statusCode)) {
+            let location = lastHttpResponse.header("location")
+            if (location == "") break
+
+            let code = lastHttpResponse.statusCode
+            let nextUrl = resolveUrl(url, location)
+
+            // Like browsers: 303 always, and 301/302 after POST, continue as GET
+            if ((code == 303 && method != "HEAD") || ((code == 301 || code == 302) && method == "POST")) {
+                method = "GET"
+                body = ""
+            }
+
+            // Credentials are not passed on to another host
+            if (parseUrl(nextUrl).host != parseUrl(url).host) {
+                requestHeaders.remove("Authorization")
+            }
+
+            url = nextUrl
+            hops++
+            raw = httpExchange(method, url, body, contentType, requestHeaders)
+        }
+        return raw
     }
     
+    /**
+     * Set HTTP response timeouts in milliseconds
+     */
+    //% weight=96
+    //% subcategory="HTTP"
+    //% block="set HTTP timeout %timeout|ms, idle timeout %idleTimeout|ms"
+    //% timeout.defl=10000
+    //% idleTimeout.defl=3000
+    export function setHttpTimeout(timeout: number, idleTimeout: number) {
+        httpTimeout = timeout
+        httpIdleTimeout = idleTimeout
+    }
+
+    /**
+     * Follow HTTP redirects (301, 302, 303, 307, 308)
+     */
+    //% weight=95
+    //% subcategory="HTTP"
+    //% block="follow redirects %enabled|max hops %maxHops"
+    //% enabled.defl=true
+    //% maxHops.defl=5
+    export function setFollowRedirects(enabled: boolean, maxHops: number) {
+        followRedirects = enabled
+        maxRedirects = maxHops
+    }
+
+    /**
+     * Keep one connection per host open and reuse it for later requests,
+     * which saves the TLS handshake of every HTTPS request.
+     * Connections the server closed are opened again when needed.
+     */
+    //% weight=98
+    //% subcategory="HTTP"
+    //% block="keep connections open %enabled"
+    //% enabled.defl=true
+    export function setKeepAlive(enabled: boolean) {
+        if (!poolListening) {
+            poolListening = true
+            addLinkClosedListener(onPoolLinkClosed)
+        }
+        keepAlive = enabled
+        if (!enabled) closeKeptConnections()
+    }
+
+    /**
+     * Close all connections kept open for later requests
+     */
+    //% weight=97
+    //% subcategory="HTTP"
+    //% block="close kept-open connections"
+    export function closeKeptConnections() {
+        lockUart()
+        while (pool.length > 0) {
+            closeLink(pool[0], pool[0].link)
+        }
+        unlockUart()
+    }
+
+    // ==================== HTTP HEADERS ====================
+
+    /**
+     * Set a custom HTTP header
+     */
+    //% weight=94
+    //% subcategory="HTTP"
+    //% block="set HTTP header %name|value %value|for %scope"
+    //% name.defl="X-API-Key"
+    //% value.defl="your-key"
+    export function setHttpHeader(name: string, value: string, scope: HeaderScope) {
+        headersFor(scope).set(name, value)
+    }
+
+    /**
+     * Send "Authorization: Bearer <token>"
+     */
+    //% weight=93
+    //% subcategory="HTTP"
+    //% block="set bearer token %token|for %scope"
+    //% token.defl="your-token"
+    export function setBearerToken(token: string, scope: HeaderScope) {
+        headersFor(scope).set("Authorization", "Bearer " + token)
+    }
+
+    /**
+     * Send "Authorization: Basic <base64(user:password)>"
+     */
+    //% weight=92
+    //% subcategory="HTTP"
+    //% block="set basic auth|user %user|password %password|for %scope"
+    //% user.defl="admin"
+    //% password.defl="password"
+    export function setBasicAuth(user: string, password: string, scope: HeaderScope) {
+        headersFor(scope).set("Authorization", "Basic " + base64Encode(user + ":" + password))
+    }
+
+    /**
+     * Remove custom HTTP headers
+     */
+    //% weight=91
+    //% subcategory="HTTP"
+    //% block="clear HTTP headers for %scope"
+    export function clearHttpHeaders(scope: HeaderScope) {
+        headersFor(scope).clear()
+    }
+
     // ==================== HTTP GET ====================
     
     /**
@@ -131,7 +957,7 @@ namespace esp8266 {
     /**
      * HTTP/HTTPS GET with custom path
      */
-    //% weight=85
+    //% weight=83
     //% subcategory="HTTP"
     //% block="HTTP GET|host %host|path %path|HTTPS %useHttps"
     //% host.defl="192.168.1.100"
@@ -249,12 +1075,10 @@ namespace esp8266 {
     //% humid.defl=60
     //% light.defl=500
     export function postSensorData(url: string, temp: number, humid: number, light: number): boolean {
-        let json = "{\"temperature\":" + temp + 
-                  ",\"humidity\":" + humid + 
-                  ",\"light\":" + light + "}"
+        let json = new JsonObject().setNumber("temperature", temp).setNumber("humidity", humid).setNumber("light", light).toString()
         
-        let response = httpPost(url, json)
-        return response.indexOf("200") >= 0 || response.indexOf("201") >= 0
+        // Kept in the offline queue when the server cannot be reached
+        return sendOrQueue(UploadKind.HttpPost, url, json)
     }
     
     /**
@@ -266,9 +1090,37 @@ namespace esp8266 {
     //% scriptId.defl="YOUR_SCRIPT_ID_HERE"
     //% jsonData.defl='{"temp":25}'
     export function postToGoogleScript(scriptId: string, jsonData: string): boolean {
+        return sendOrQueue(UploadKind.GoogleScript, scriptId, jsonData)
+    }
+
+    /**
+     * POST to a Google Apps Script web app with the given headers
+     */
+    //% blockHidden=true
+    export function sendToGoogleScript(scriptId: string, jsonData: string, requestHeaders: HttpHeaders): boolean {
         let url = "https://script.google.com/macros/s/" + scriptId + "/exec"
-        let response = httpPost(url, jsonData)
-        return response.indexOf("200") >= 0 || response.indexOf("302") >= 0
+
+        // Script output is served from script.googleusercontent.com after a 302
+        httpRequestWithHeaders("POST", url, jsonData, "application/json", requestHeaders, true)
+
+        return lastHttpResponse.isSuccess() || lastHttpResponse.statusCode == 302
+    }
+
+    /**
+     * GET from Google Apps Script and return the script output
+     */
+    //% weight=38
+    //% subcategory="HTTP"
+    //% block="GET from Google Script|ID %scriptId|query %query"
+    //% scriptId.defl="YOUR_SCRIPT_ID_HERE"
+    //% query.defl="sheet=data"
+    export function getFromGoogleScript(scriptId: string, query: string): string {
+        let url = "https://script.google.com/macros/s/" + scriptId + "/exec"
+        if (query != "") url += "?" + query
+
+        let response = httpRequestWithHeaders("GET", url, "", "application/json", takeRequestHeaders(null), true)
+
+        return extractBody(response)
     }
     
     /**
@@ -282,12 +1134,103 @@ namespace esp8266 {
     //% humid.defl=60
     //% light.defl=500
     export function postSensorToGoogle(scriptId: string, temp: number, humid: number, light: number): boolean {
-        let json = "{\"temperature\":" + temp + 
-                  ",\"humidity\":" + humid + 
-                  ",\"light\":" + light + "}"
+        let json = new JsonObject().setNumber("temperature", temp).setNumber("humidity", humid).setNumber("light", light).toString()
         return postToGoogleScript(scriptId, json)
     }
     
+    // ==================== ASYNC REQUESTS ====================
+
+    let nextRequestId = 1
+    let httpResponseHandler: (requestId: number, status: number, body: string) => void = null
+
+    // Helper: Run request in background and report through the response event
+    function startAsyncRequest(method: string, url: string, body: string, contentType: string): number {
+        let requestId = nextRequestId++
+
+        // Headers and redirect setting are taken now so later blocks do not change this request
+        let requestHeaders = takeRequestHeaders(null)
+        let follow = followRedirects
+
+        control.inBackground(() => {
+            // Requests queue on the UART lock and run one at a time
+            httpRequestWithHeaders(method, url, body, contentType, requestHeaders, follow)
+            let response = lastHttpResponse
+            if (httpResponseHandler) {
+                httpResponseHandler(requestId, response.statusCode, response.body)
+            }
+        })
+        return requestId
+    }
+
+    /**
+     * Run code when a background HTTP request finishes
+     */
+    //% weight=89
+    //% subcategory="HTTP"
+    //% block="on HTTP response"
+    //% draggableParameters="reporter"
+    export function onHttpResponse(handler: (requestId: number, status: number, body: string) => void) {
+        httpResponseHandler = handler
+    }
+
+    /**
+     * HTTP/HTTPS GET in background, returns request id
+     */
+    //% weight=88
+    //% subcategory="HTTP"
+    //% block="HTTP GET in background|URL %url"
+    //% url.defl="http://192.168.1.100/api/data"
+    export function httpGetAsync(url: string): number {
+        return startAsyncRequest("GET", url, "", "application/json")
+    }
+
+    /**
+     * HTTP/HTTPS POST in background, returns request id
+     */
+    //% weight=87
+    //% subcategory="HTTP"
+    //% block="HTTP POST in background|URL %url|body %body"
+    //% url.defl="http://192.168.1.100/api/data"
+    //% body.defl='{"temp":25}'
+    export function httpPostAsync(url: string, body: string): number {
+        return startAsyncRequest("POST", url, body, "application/json")
+    }
+
+    /**
+     * HTTP/HTTPS PUT in background, returns request id
+     */
+    //% weight=86
+    //% subcategory="HTTP"
+    //% block="HTTP PUT in background|URL %url|body %body"
+    //% url.defl="http://192.168.1.100/api/data/1"
+    //% body.defl='{"temp":30}'
+    export function httpPutAsync(url: string, body: string): number {
+        return startAsyncRequest("PUT", url, body, "application/json")
+    }
+
+    /**
+     * HTTP/HTTPS PATCH in background, returns request id
+     */
+    //% weight=85
+    //% subcategory="HTTP"
+    //% block="HTTP PATCH in background|URL %url|body %body"
+    //% url.defl="http://192.168.1.100/api/data/1"
+    //% body.defl='{"temp":28}'
+    export function httpPatchAsync(url: string, body: string): number {
+        return startAsyncRequest("PATCH", url, body, "application/json")
+    }
+
+    /**
+     * HTTP/HTTPS DELETE in background, returns request id
+     */
+    //% weight=84
+    //% subcategory="HTTP"
+    //% block="HTTP DELETE in background|URL %url"
+    //% url.defl="http://192.168.1.100/api/data/1"
+    export function httpDeleteAsync(url: string): number {
+        return startAsyncRequest("DELETE", url, "", "application/json")
+    }
+
     // ==================== RESPONSE HELPERS ====================
     
     /**
@@ -297,9 +1240,7 @@ namespace esp8266 {
     //% subcategory="HTTP"
     //% block="HTTP success|response %response"
     export function isHttpSuccess(response: string): boolean {
-        return response.indexOf("200") >= 0 || 
-               response.indexOf("201") >= 0 || 
-               response.indexOf("204") >= 0
+        return responseFor(response).isSuccess()
     }
 
     /**
@@ -309,7 +1250,17 @@ namespace esp8266 {
     //% subcategory="HTTP"
     //% block="last HTTP request success"
     export function lastHttpSuccess(): boolean {
-        return rxData.indexOf("200") >= 0 || rxData.indexOf("201") >= 0
+        return lastHttpResponse.isSuccess()
+    }
+
+    /**
+     * Check if last HTTP request timed out
+     */
+    //% weight=27
+    //% subcategory="HTTP"
+    //% block="last HTTP request timed out"
+    export function lastHttpTimedOut(): boolean {
+        return lastHttpResponse.timedOut
     }
 
     /**
@@ -329,19 +1280,49 @@ namespace esp8266 {
     //% subcategory="HTTP"
     //% block="extract body from|response %response"
     export function extractBody(response: string): string {
-        // Find double CRLF (end of headers)
-        let bodyStart = response.indexOf("\r\n\r\n")
-        if (bodyStart >= 0) {
-            return response.substr(bodyStart + 4)
-        }
-        
-        // Alternative: find first { for JSON
-        let jsonStart = response.indexOf("{")
-        if (jsonStart >= 0) {
-            return response.substr(jsonStart)
-        }
-        
-        return ""
+        return responseFor(response).body
+    }
+
+    /**
+     * Get header value from HTTP response
+     */
+    //% weight=24
+    //% subcategory="HTTP"
+    //% block="get header %name|from response %response"
+    //% name.defl="Content-Type"
+    export function getHeader(response: string, name: string): string {
+        return responseFor(response).header(name)
+    }
+
+    /**
+     * Get header value from last HTTP response
+     */
+    //% weight=23
+    //% subcategory="HTTP"
+    //% block="last response header %name"
+    //% name.defl="Content-Type"
+    export function lastResponseHeader(name: string): string {
+        return lastHttpResponse.header(name)
+    }
+
+    /**
+     * Get body of last HTTP response
+     */
+    //% weight=22
+    //% subcategory="HTTP"
+    //% block="last response body"
+    export function lastResponseBody(): string {
+        return lastHttpResponse.body
+    }
+
+    /**
+     * Get status code of last HTTP response
+     */
+    //% weight=21
+    //% subcategory="HTTP"
+    //% block="last status code"
+    export function lastStatusCode(): number {
+        return lastHttpResponse.statusCode
     }
     
     /**
@@ -351,20 +1332,7 @@ namespace esp8266 {
     //% subcategory="HTTP"
     //% block="get status code|response %response"
     export function getStatusCode(response: string): number {
-        // Look for "HTTP/1.1 XXX"
-        let httpIndex = response.indexOf("HTTP/1.1 ")
-        if (httpIndex >= 0) {
-            let codeStr = response.substr(httpIndex + 9, 3)
-            let code = 0
-            for (let i = 0; i < 3; i++) {
-                let char = codeStr.charAt(i)
-                if (char >= "0" && char <= "9") {
-                    code = code * 10 + (char.charCodeAt(0) - 48)
-                }
-            }
-            return code
-        }
-        return 0
+        return responseFor(response).statusCode
     }
 
     /**
@@ -375,8 +1343,7 @@ namespace esp8266 {
     //% block="response has status %code"
     //% code.defl=200
     export function responseHasStatus(code: number): boolean {
-        let codeStr = "" + code
-        return rxData.indexOf(codeStr) >= 0
+        return lastHttpResponse.statusCode == code
     }
 
     /**
@@ -401,8 +1368,8 @@ namespace esp8266 {
     //% path.defl="/api/sensor"
     //% value.defl=25
     export function simplePostSensor(ip: string, path: string, value: number): boolean {
-        let json = "{\"value\":" + value + "}"
+        let json = new JsonObject().setNumber("value", value).toString()
         let response = httpPost("http://" + ip + path, json)
-        return response.indexOf("200") >= 0
+        return isHttpSuccess(response)
     }
 }
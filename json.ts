@@ -0,0 +1,381 @@
+/**
+ * JSON builder and parser shared by the HTTP and Firebase functions.
+ * Values are kept as JSON text; lookups return the raw text of a value.
+ */
+namespace esp8266 {
+    // ==================== JSON TOKENIZER ====================
+    enum JsonToken {
+        End,
+        BeginObject,
+        EndObject,
+        BeginArray,
+        EndArray,
+        Colon,
+        Comma,
+        Text,
+        Number,
+        Literal,
+        Invalid
+    }
+
+    // Helper: Reads the tokens of a JSON text one by one
+    class JsonReader {
+        text: string
+        pos: number
+        tokenStart: number
+
+        constructor(text: string, pos: number) {
+            this.text = text
+            this.pos = pos
+            this.tokenStart = pos
+        }
+
+        // Kind of the next token, moving past it
+        next(): JsonToken {
+            let text = this.text
+            while (this.pos < text.length && " \t\r\n".indexOf(text.charAt(this.pos)) >= 0) this.pos++
+            this.tokenStart = this.pos
+            if (this.pos >= text.length) return JsonToken.End
+
+            let char = text.charAt(this.pos)
+            this.pos++
+            if (char == "{") return JsonToken.BeginObject
+            if (char == "}") return JsonToken.EndObject
+            if (char == "[") return JsonToken.BeginArray
+            if (char == "]") return JsonToken.EndArray
+            if (char == ":") return JsonToken.Colon
+            if (char == ",") return JsonToken.Comma
+            if (char == "\"") {
+                while (this.pos < text.length) {
+                    let c = text.charAt(this.pos)
+                    this.pos += c == "\\" ? 2 : 1
+                    if (c == "\"") return JsonToken.Text
+                }
+                return JsonToken.Invalid
+            }
+            if (char == "-" || (char >= "0" && char <= "9")) {
+                while (this.pos < text.length && "0123456789+-.eE".indexOf(text.charAt(this.pos)) >= 0) this.pos++
+                return JsonToken.Number
+            }
+            if (char >= "a" && char <= "z") {
+                while (this.pos < text.length && text.charAt(this.pos) >= "a" && text.charAt(this.pos) <= "z") this.pos++
+                return JsonToken.Literal
+            }
+            return JsonToken.Invalid
+        }
+
+        // Text of the token just read
+        tokenText(): string {
+            return this.text.substr(this.tokenStart, this.pos - this.tokenStart)
+        }
+
+        // Move past the rest of a value whose first token was just read
+        skipValue(first: JsonToken): boolean {
+            if (first == JsonToken.Text || first == JsonToken.Number || first == JsonToken.Literal) return true
+            if (first != JsonToken.BeginObject && first != JsonToken.BeginArray) return false
+            let depth = 1
+            while (depth > 0) {
+                let token = this.next()
+                if (token == JsonToken.BeginObject || token == JsonToken.BeginArray) depth++
+                else if (token == JsonToken.EndObject || token == JsonToken.EndArray) depth--
+                else if (token == JsonToken.End || token == JsonToken.Invalid) return false
+            }
+            return true
+        }
+    }
+
+    // Helper: Call back with the start and end of each element of an array
+    function forEachJsonElement(json: string, callback: (start: number, end: number) => void) {
+        let reader = new JsonReader(json, 0)
+        if (reader.next() != JsonToken.BeginArray) return
+        while (true) {
+            let token = reader.next()
+            if (token == JsonToken.EndArray) return
+            let start = reader.tokenStart
+            if (!reader.skipValue(token)) return
+            callback(start, reader.pos)
+            if (reader.next() != JsonToken.Comma) return
+        }
+    }
+
+    // Helper: Split "sensors.suhu.value" or "items[2].name" into keys and indexes
+    function jsonPathSegments(path: string): string[] {
+        let segments: string[] = []
+        let current = ""
+        for (let i = 0; i < path.length; i++) {
+            let char = path.charAt(i)
+            if (char == "." || char == "[" || char == "]") {
+                if (current != "") segments.push(current)
+                current = char == "[" ? "[" : ""
+            } else {
+                current += char
+            }
+        }
+        if (current != "") segments.push(current)
+        return segments
+    }
+
+    // ==================== JSON PARSER ====================
+    /**
+     * Text of a JSON string literal, other values unchanged
+     */
+    //% blockHidden=true
+    export function unquoteJson(raw: string): string {
+        if (raw.charAt(0) != "\"") return raw
+        let result = ""
+        for (let i = 1; i < raw.length - 1; i++) {
+            let char = raw.charAt(i)
+            if (char == "\\" && i + 1 < raw.length - 1) {
+                i++
+                char = raw.charAt(i)
+                if (char == "n") char = "\n"
+                else if (char == "r") char = "\r"
+                else if (char == "t") char = "\t"
+                else if (char == "u" && i + 4 < raw.length - 1) {
+                    char = String.fromCharCode(parseHex(raw.substr(i + 1, 4)))
+                    i += 4
+                }
+            }
+            result += char
+        }
+        return result
+    }
+
+    /**
+     * Call back with each key and raw value of a JSON object
+     */
+    //% blockHidden=true
+    export function forEachJsonMember(json: string, callback: (key: string, value: string) => void) {
+        let reader = new JsonReader(json, 0)
+        if (reader.next() != JsonToken.BeginObject) return
+        while (reader.next() == JsonToken.Text) {
+            let key = unquoteJson(reader.tokenText())
+            if (reader.next() != JsonToken.Colon) return
+            let token = reader.next()
+            let start = reader.tokenStart
+            if (!reader.skipValue(token)) return
+            callback(key, json.substr(start, reader.pos - start))
+            if (reader.next() != JsonToken.Comma) return
+        }
+    }
+
+    /**
+     * Raw value of a member of a JSON object, "" if missing
+     */
+    //% blockHidden=true
+    export function jsonMember(json: string, name: string): string {
+        let found = ""
+        forEachJsonMember(json, (key, value) => {
+            if (key == name && found == "") found = value
+        })
+        return found
+    }
+
+    /**
+     * Raw value at a path such as "sensors.suhu.value" or "items[2]", "" if missing
+     */
+    //% blockHidden=true
+    export function jsonLookup(json: string, path: string): string {
+        let value = jsonValueText(json)
+        let segments = jsonPathSegments(path)
+        for (let i = 0; i < segments.length && value != ""; i++) {
+            let segment = segments[i]
+            if (segment.charAt(0) == "[") {
+                let wanted = parseDigits(segment.substr(1))
+                let index = 0
+                let element = ""
+                let source = value
+                forEachJsonElement(source, (start, end) => {
+                    if (index == wanted) element = source.substr(start, end - start)
+                    index++
+                })
+                value = element
+            } else {
+                value = jsonMember(value, segment)
+            }
+        }
+        return value
+    }
+
+    /**
+     * First complete value of a JSON text without surrounding whitespace, "" if malformed
+     */
+    //% blockHidden=true
+    export function jsonValueText(json: string): string {
+        let reader = new JsonReader(json, 0)
+        let token = reader.next()
+        let start = reader.tokenStart
+        return reader.skipValue(token) ? json.substr(start, reader.pos - start) : ""
+    }
+
+    /**
+     * Number of a JSON value (exponents allowed, true is 1); 0 for anything else
+     */
+    //% blockHidden=true
+    export function jsonToNumber(raw: string): number {
+        let value = unquoteJson(raw)
+        if (value == "true") return 1
+        let first = value.charAt(0)
+        if (first != "-" && first != "." && !(first >= "0" && first <= "9")) return 0
+        let exponent = value.indexOf("e")
+        if (exponent < 0) exponent = value.indexOf("E")
+        if (exponent < 0) return parseStringToNumber(value)
+        return parseStringToNumber(value.substr(0, exponent)) * Math.pow(10, parseStringToNumber(value.substr(exponent + 1)))
+    }
+
+    // ==================== JSON BUILDER ====================
+    /**
+     * Quote text as a JSON string
+     */
+    //% blockHidden=true
+    export function jsonQuote(text: string): string {
+        let result = "\""
+        for (let i = 0; i < text.length; i++) {
+            let char = text.charAt(i)
+            let code = text.charCodeAt(i)
+            if (char == "\"" || char == "\\") result += "\\" + char
+            else if (char == "\n") result += "\\n"
+            else if (char == "\r") result += "\\r"
+            else if (char == "\t") result += "\\t"
+            else if (code < 32) result += "\\u00" + (code < 16 ? "0" : "1") + "0123456789abcdef".charAt(code % 16)
+            else result += char
+        }
+        return result + "\""
+    }
+
+    /**
+     * JSON text of a number; NaN and infinity become null
+     */
+    //% blockHidden=true
+    export function jsonNumber(value: number): string {
+        // Only NaN and infinity give NaN here
+        if (value - value != 0) return "null"
+        return "" + value
+    }
+
+    /**
+     * Builds a JSON object; names and texts are escaped
+     */
+    export class JsonObject {
+        private members: string
+
+        constructor() {
+            this.members = ""
+        }
+
+        setRaw(name: string, json: string): JsonObject {
+            if (this.members != "") this.members += ","
+            this.members += jsonQuote(name) + ":" + json
+            return this
+        }
+
+        setNumber(name: string, value: number): JsonObject {
+            return this.setRaw(name, jsonNumber(value))
+        }
+
+        setString(name: string, value: string): JsonObject {
+            return this.setRaw(name, jsonQuote(value))
+        }
+
+        setBoolean(name: string, value: boolean): JsonObject {
+            return this.setRaw(name, value ? "true" : "false")
+        }
+
+        isEmpty(): boolean {
+            return this.members == ""
+        }
+
+        toString(): string {
+            return "{" + this.members + "}"
+        }
+    }
+
+    /**
+     * Builds a JSON array; texts are escaped
+     */
+    export class JsonArray {
+        private elements: string
+
+        constructor() {
+            this.elements = ""
+        }
+
+        addRaw(json: string): JsonArray {
+            if (this.elements != "") this.elements += ","
+            this.elements += json
+            return this
+        }
+
+        addNumber(value: number): JsonArray {
+            return this.addRaw(jsonNumber(value))
+        }
+
+        addString(value: string): JsonArray {
+            return this.addRaw(jsonQuote(value))
+        }
+
+        addBoolean(value: boolean): JsonArray {
+            return this.addRaw(value ? "true" : "false")
+        }
+
+        toString(): string {
+            return "[" + this.elements + "]"
+        }
+    }
+
+    // ==================== JSON PUBLIC API ====================
+    /**
+     * Number at a path in a JSON text, e.g. "sensors.suhu.value"; 0 if missing
+     */
+    //% subcategory="JSON"
+    //% weight=100
+    //% block="JSON number at %path|in %json"
+    //% path.defl="sensors.suhu.value"
+    export function jsonGetNumber(json: string, path: string): number {
+        return jsonToNumber(jsonLookup(json, path))
+    }
+
+    /**
+     * Text at a path in a JSON text, e.g. "items[2].name"; objects and arrays come back as JSON
+     */
+    //% subcategory="JSON"
+    //% weight=99
+    //% block="JSON text at %path|in %json"
+    //% path.defl="items[0].name"
+    export function jsonGetString(json: string, path: string): string {
+        let value = jsonLookup(json, path)
+        return value == "null" ? "" : unquoteJson(value)
+    }
+
+    /**
+     * True/false at a path in a JSON text; true, "true" and non-zero numbers are true
+     */
+    //% subcategory="JSON"
+    //% weight=98
+    //% block="JSON boolean at %path|in %json"
+    //% path.defl="lampu.on"
+    export function jsonGetBoolean(json: string, path: string): boolean {
+        let value = jsonLookup(json, path)
+        if (value == "true" || value == "\"true\"") return true
+        if (value == "" || value == "false" || value == "null" || value.charAt(0) == "\"") return false
+        return parseStringToNumber(value) != 0
+    }
+
+    /**
+     * Number of elements (array) or members (object) at a path, 0 otherwise
+     */
+    //% subcategory="JSON"
+    //% weight=97
+    //% block="JSON count at %path|in %json"
+    //% path.defl="items"
+    export function jsonCount(json: string, path: string): number {
+        let value = jsonLookup(json, path)
+        let count = 0
+        if (value.charAt(0) == "[") {
+            forEachJsonElement(value, (start, end) => count++)
+        } else {
+            forEachJsonMember(value, (key, member) => count++)
+        }
+        return count
+    }
+}
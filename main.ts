@@ -6,15 +6,270 @@ namespace esp8266 {
     export let esp8266Initialized = false
     export let rxData = ""
     let wifiConnected = false
+    let uartLocked = false
+    let uartReaderStarted = false
+    //% blockHidden=true
+    export let multiConnection = false
+
+    // Link ids used in multi-connection mode. Incoming server connections
+    // take the lowest free ids, so outgoing links count down from 4.
+    //% blockHidden=true
+    export const HTTP_LINK = 4
+    //% blockHidden=true
+    export const MQTT_LINK = 3
+    //% blockHidden=true
+    export const FIREBASE_STREAM_LINK = 2
 
     // ==================== ERROR HANDLER ====================
-    function error(code: number) {
-        // debugging & LED dihilangkan
+    /**
+     * Error codes reported by the library
+     */
+    export enum EspError {
+        //% block="none"
+        None = 0,
+        //% block="reset failed"
+        ResetFailed = 1,
+        //% block="echo off failed"
+        EchoFailed = 2,
+        //% block="station mode failed"
+        ModeFailed = 3,
+        //% block="not initialized"
+        NotInitialized = 4,
+        //% block="WiFi not connected"
+        WifiDown = 10,
+        //% block="WiFi connect failed"
+        WifiConnectFailed = 11,
+        //% block="WiFi connect timeout"
+        WifiTimeout = 12,
+        //% block="WiFi wrong password"
+        WifiWrongPassword = 13,
+        //% block="WiFi network not found"
+        WifiApNotFound = 14,
+        //% block="DNS failed"
+        DnsFailed = 20,
+        //% block="connect failed"
+        ConnectFailed = 21,
+        //% block="TLS failed"
+        TlsFailed = 22,
+        //% block="send failed"
+        SendFailed = 23,
+        //% block="timeout"
+        Timeout = 24,
+        //% block="HTTP error status"
+        HttpStatus = 30,
+        //% block="Firebase not configured"
+        FirebaseNotConfigured = 40,
+        //% block="Firebase sign-in failed"
+        FirebaseAuthFailed = 41,
+        //% block="MQTT connection refused"
+        MqttRefused = 50,
+        //% block="MQTT packet too large"
+        MqttPacketTooLarge = 51
+    }
+
+    let lastErrorCode = EspError.None
+    let lastErrorDetail = ""
+    let showErrorsOnLed = false
+    let errorHandler: (code: number, message: string) => void = null
+
+    /**
+     * Record an error, notify the "on error" handler and optionally show it on the LEDs
+     */
+    //% blockHidden=true
+    export function error(code: EspError, detail: string = "") {
+        lastErrorCode = code
+        lastErrorDetail = detail
+
+        // Handlers run in their own fiber so they may use the ESP8266 again
+        let message = lastErrorMessage()
+        if (errorHandler) {
+            control.inBackground(() => errorHandler(code, message))
+        }
+        if (showErrorsOnLed) {
+            control.inBackground(() => basic.showString("E" + code))
+        }
+    }
+
+    // ==================== AT COMMAND ENGINE ====================
+    /**
+     * Outcome of an AT command
+     */
+    export enum AtResult {
+        //% block="OK"
+        Ok,
+        //% block="ERROR"
+        Error,
+        //% block="FAIL"
+        Fail,
+        //% block="busy"
+        Busy,
+        //% block="timeout"
+        Timeout
+    }
+
+    /**
+     * AT command outcome with the raw response lines
+     */
+    export class AtResponse {
+        result: AtResult
+        raw: string
+        lines: string[]
+
+        constructor(result: AtResult, raw: string) {
+            this.result = result
+            this.raw = raw
+            this.lines = []
+            let parts = raw.split("\r\n")
+            for (let i = 0; i < parts.length; i++) {
+                if (parts[i] != "") this.lines.push(parts[i])
+            }
+        }
+
+        ok(): boolean {
+            return this.result == AtResult.Ok
+        }
+
+        /**
+         * First response line starting with prefix, "" if none
+         */
+        find(prefix: string): string {
+            for (let i = 0; i < this.lines.length; i++) {
+                if (this.lines[i].indexOf(prefix) == 0) return this.lines[i]
+            }
+            return ""
+        }
+    }
+
+    //% blockHidden=true
+    export let atBusyRetries = 3
+    //% blockHidden=true
+    export let atBusyDelay = 500
+
+    // Helper: Check for a complete response line
+    function hasLine(data: string, line: string): boolean {
+        return ("\n" + data).indexOf("\n" + line + "\r\n") >= 0
+    }
+
+    // Helper: Classify what the module answered so far, -1 while still waiting
+    function classifyResponse(data: string, expected: string): number {
+        if (data.indexOf("busy p...") >= 0 || data.indexOf("busy s...") >= 0) return AtResult.Busy
+        if (hasLine(data, "FAIL")) return AtResult.Fail
+        if (hasLine(data, "ERROR") || data.indexOf("link is not valid") >= 0) return AtResult.Error
+        if (data.indexOf(expected) >= 0) return AtResult.Ok
+        return -1
+    }
+
+    /**
+     * Run AT command and classify the response, retrying while the module
+     * is busy. Caller must hold the UART (see lockUart).
+     */
+    //% blockHidden=true
+    export function atCommand(command: string, expected: string = "OK", timeout: number = 1000): AtResponse {
+        let attempt = 0
+        while (true) {
+            rxData = ""
+            pollUart()
+            serial.writeString(command + "\r\n")
+
+            let result = AtResult.Timeout
+            let start = input.runningTime()
+            while (input.runningTime() - start < timeout) {
+                rxData += pollUart()
+                let kind = classifyResponse(rxData, expected)
+                if (kind >= 0) {
+                    result = kind
+                    break
+                }
+                basic.pause(10)
+            }
+
+            if (result != AtResult.Busy || attempt >= atBusyRetries) {
+                return new AtResponse(result, rxData)
+            }
+            attempt++
+            basic.pause(atBusyDelay)
+        }
+    }
+
+    /**
+     * Run AT command while holding the UART lock
+     */
+    //% blockHidden=true
+    export function runAtCommand(command: string, expected: string = "OK", timeout: number = 1000): AtResponse {
+        lockUart()
+        let response = atCommand(command, expected, timeout)
+        unlockUart()
+        return response
     }
 
     // ==================== CORE HELPER FUNCTIONS ====================
     /**
-     * Send AT command to ESP8266
+     * Parse decimal digits, ignoring anything else
+     */
+    //% blockHidden=true
+    export function parseDigits(str: string): number {
+        let value = 0
+        for (let i = 0; i < str.length; i++) {
+            let char = str.charAt(i)
+            if (char >= "0" && char <= "9") {
+                value = value * 10 + (char.charCodeAt(0) - 48)
+            }
+        }
+        return value
+    }
+
+    // Helper: UTF-8 bytes of the character with this code.
+    // A UTF-16 surrogate half counts 2, so a pair makes the 4 bytes of its code point.
+    function utf8CharBytes(code: number): number {
+        if (code < 0x80) return 1
+        if (code < 0x800 || (code >= 0xd800 && code < 0xe000)) return 2
+        if (code < 0x10000) return 3
+        return 4
+    }
+
+    /**
+     * Length in UTF-8 bytes, as counted by Content-Length, AT+CIPSEND and +IPD
+     */
+    //% blockHidden=true
+    export function utf8Length(text: string): number {
+        let bytes = 0
+        for (let i = 0; i < text.length; i++) {
+            bytes += utf8CharBytes(text.charCodeAt(i))
+        }
+        return bytes
+    }
+
+    /**
+     * Number of characters from the start of text that make up at most the given bytes
+     */
+    //% blockHidden=true
+    export function utf8Chars(text: string, bytes: number): number {
+        let chars = 0
+        while (chars < text.length && bytes > 0) {
+            bytes -= utf8CharBytes(text.charCodeAt(chars))
+            if (bytes < 0) break
+            chars++
+        }
+        return chars
+    }
+
+    /**
+     * Text as a quoted AT command parameter, with \ " and , escaped by a backslash
+     */
+    //% blockHidden=true
+    export function atQuote(text: string): string {
+        let result = ""
+        for (let i = 0; i < text.length; i++) {
+            let char = text.charAt(i)
+            if (char == "\\" || char == "\"" || char == ",") result += "\\"
+            result += char
+        }
+        return "\"" + result + "\""
+    }
+
+    /**
+     * Send AT command to ESP8266.
+     * Caller must hold the UART (see lockUart).
      */
     //% blockHidden=true
     export function sendCommand(
@@ -22,19 +277,320 @@ namespace esp8266 {
         expected: string = null,
         timeout: number = 1000
     ): boolean {
-        rxData = ""
-        serial.readString()
-        serial.writeString(command + "\r\n")
+        if (expected == null) {
+            rxData = ""
+            pollUart()
+            serial.writeString(command + "\r\n")
+            return true
+        }
+        return atCommand(command, expected, timeout).ok()
+    }
 
-        if (expected == null) return true
+    /**
+     * Wait until no other fiber is talking to the ESP8266, then take the UART
+     */
+    //% blockHidden=true
+    export function lockUart() {
+        while (uartLocked) {
+            basic.pause(10)
+        }
+        uartLocked = true
+    }
 
-        let start = input.runningTime()
-        while (input.runningTime() - start < timeout) {
-            rxData += serial.readString()
-            if (rxData.indexOf(expected) >= 0) return true
-            if (rxData.indexOf("ERROR") >= 0) return false
+    /**
+     * Release the UART taken with lockUart
+     */
+    //% blockHidden=true
+    export function unlockUart() {
+        uartLocked = false
+    }
+
+    // ==================== UNSOLICITED MESSAGES ====================
+    // The ESP8266 reports WiFi and link changes at any time. Everything read
+    // from the UART passes through scanIncoming, which tracks +IPD payloads
+    // so that text inside them is never mistaken for a status line.
+    // Payloads of byte links (see addLinkBytesListener) are taken out before
+    // the rest is decoded as UTF-8 text.
+    let lineBuffer = ""
+    let ipdRemaining = 0
+    let ipdLink = -1
+    let ipdPayload = ""
+    let deliverData = false
+    let wifiConnectedHandler: () => void = null
+    let wifiDisconnectedHandler: () => void = null
+    let dataReceivedHandler: (data: string) => void = null
+    let linkClosedListeners: ((link: number) => void)[] = []
+    let linkDataListeners: ((link: number, data: string) => void)[] = []
+    let byteLinks: number[] = []
+    let linkBytesListeners: ((data: Buffer) => void)[] = []
+    let heldBytes = pins.createBuffer(0)
+    let bytesPayload = pins.createBuffer(0)
+    let bytesFilled = 0
+    let bytesListener: (data: Buffer) => void = null
+
+    // "+IPD,<id>,<len>,<ip>,<port>:" is never longer than this
+    const IPD_HEADER_MAX = 40
+
+    // Helper: React to one status line sent by the module
+    function handleStatusLine(line: string) {
+        if (line == "WIFI GOT IP") {
+            let wasConnected = wifiConnected
+            wifiConnected = true
+            if (!wasConnected && wifiConnectedHandler) {
+                control.inBackground(wifiConnectedHandler)
+            }
+        } else if (line == "WIFI DISCONNECT") {
+            let wasConnected = wifiConnected
+            wifiConnected = false
+            if (wasConnected && wifiDisconnectedHandler) {
+                control.inBackground(wifiDisconnectedHandler)
+            }
+        } else if (line == "CLOSED" || line.indexOf(",CLOSED") == 1) {
+            // "CLOSED" in single connection mode, "<id>,CLOSED" otherwise
+            let link = line == "CLOSED" ? -1 : parseDigits(line.substr(0, 1))
+            for (let i = 0; i < linkClosedListeners.length; i++) {
+                linkClosedListeners[i](link)
+            }
         }
-        return false
+    }
+
+    /**
+     * Get notified when the server or module closes a link (-1 in single connection mode)
+     */
+    //% blockHidden=true
+    export function addLinkClosedListener(listener: (link: number) => void) {
+        linkClosedListeners.push(listener)
+    }
+
+    /**
+     * Get every complete +IPD payload with its link id (-1 in single connection mode)
+     */
+    //% blockHidden=true
+    export function addLinkDataListener(listener: (link: number, data: string) => void) {
+        linkDataListeners.push(listener)
+    }
+
+    /**
+     * Get the +IPD payloads of a link as bytes instead of text, e.g. for a binary protocol
+     */
+    //% blockHidden=true
+    export function addLinkBytesListener(link: number, listener: (data: Buffer) => void) {
+        byteLinks.push(link)
+        linkBytesListeners.push(listener)
+    }
+
+    // Helper: Bytes from start up to end as one buffer
+    function bytesBetween(data: Buffer, start: number, end: number): Buffer {
+        let part = pins.createBuffer(end - start)
+        for (let i = start; i < end; i++) part[i - start] = data[i]
+        return part
+    }
+
+    // Helper: Number at index up to the first non-digit, -1 if there is no digit
+    function digitsAt(data: Buffer, index: number): number {
+        let value = -1
+        for (let i = index; i < data.length && data[i] >= 48 && data[i] <= 57; i++) {
+            value = (value < 0 ? 0 : value * 10) + data[i] - 48
+        }
+        return value
+    }
+
+    // Helper: Length of a "+IPD,<id>,<len>...:" header of a byte link at index, and get
+    // ready to collect its payload; 0 if there is none, -1 if the data ends before it can be told
+    function bytesHeaderLength(data: Buffer, index: number): number {
+        let prefix = "+IPD,"
+        for (let i = 0; i < prefix.length; i++) {
+            if (index + i >= data.length) return -1
+            if (data[index + i] != prefix.charCodeAt(i)) return 0
+        }
+        let colon = index + prefix.length
+        while (colon < data.length && data[colon] != 58) {
+            if (colon - index >= IPD_HEADER_MAX) return 0
+            colon++
+        }
+        if (colon >= data.length) return -1
+
+        let link = digitsAt(data, index + prefix.length)
+        let lengthAt = index + prefix.length + ("" + link).length
+        let listener = byteLinks.indexOf(link)
+        if (link < 0 || listener < 0 || data[lengthAt] != 44 || digitsAt(data, lengthAt + 1) < 0) return 0
+        bytesListener = linkBytesListeners[listener]
+        bytesPayload = pins.createBuffer(digitsAt(data, lengthAt + 1))
+        bytesFilled = 0
+        return colon + 1 - index
+    }
+
+    // Helper: Bytes at the end that start a UTF-8 character not fully read yet
+    function partialCharBytes(data: Buffer): number {
+        for (let back = 1; back <= 3 && back <= data.length; back++) {
+            let byte = data[data.length - back]
+            if ((byte & 0xc0) != 0x80) {
+                let size = byte >= 0xf0 ? 4 : (byte >= 0xe0 ? 3 : (byte >= 0xc0 ? 2 : 1))
+                return size > back ? back : 0
+            }
+        }
+        return 0
+    }
+
+    // Helper: Take the payloads of byte links out of what was read, return the rest as text
+    function splitBytes(data: Buffer): string {
+        let text = ""
+        let start = 0
+        let i = 0
+        while (i < data.length) {
+            if (bytesFilled < bytesPayload.length) {
+                let take = Math.min(bytesPayload.length - bytesFilled, data.length - i)
+                for (let j = 0; j < take; j++) bytesPayload[bytesFilled + j] = data[i + j]
+                bytesFilled += take
+                i += take
+                start = i
+                if (bytesFilled == bytesPayload.length && bytesListener) bytesListener(bytesPayload)
+                continue
+            }
+            if (data[i] == 43) {
+                let headerLength = bytesHeaderLength(data, i)
+                if (headerLength != 0) {
+                    text += bytesBetween(data, start, i).toString()
+                    if (headerLength < 0) {
+                        // Wait for the rest of the header
+                        heldBytes = bytesBetween(data, i, data.length)
+                        return text
+                    }
+                    i += headerLength
+                    start = i
+                    continue
+                }
+            }
+            i++
+        }
+        // A character split between two reads is decoded once it is complete
+        let end = data.length - partialCharBytes(data)
+        heldBytes = bytesBetween(data, end, data.length)
+        return text + bytesBetween(data, start, end).toString()
+    }
+
+    // Helper: Complete +IPD payload, user event only outside of a request
+    function handlePayload(link: number, payload: string) {
+        for (let i = 0; i < linkDataListeners.length; i++) {
+            linkDataListeners[i](link, payload)
+        }
+        if (deliverData && dataReceivedHandler) {
+            control.inBackground(() => dataReceivedHandler(payload))
+        }
+    }
+
+    // Helper: Split incoming text into status lines and +IPD payloads
+    function scanIncoming(chunk: string) {
+        lineBuffer += chunk
+        while (lineBuffer.length > 0) {
+            // Inside a payload: take up to the declared length
+            if (ipdRemaining > 0) {
+                // The declared length counts bytes, the text holds decoded characters
+                let take = utf8Chars(lineBuffer, ipdRemaining)
+                if (take == 0) take = 1
+                let part = lineBuffer.substr(0, take)
+                ipdPayload += part
+                lineBuffer = lineBuffer.substr(take)
+                ipdRemaining -= utf8Length(part)
+                if (ipdRemaining < 0) ipdRemaining = 0
+                if (ipdRemaining == 0) {
+                    handlePayload(ipdLink, ipdPayload)
+                    ipdPayload = ""
+                }
+                continue
+            }
+
+            // "+IPD,[<id>,]<len>[,<ip>,<port>]:" starts a payload
+            if (lineBuffer.indexOf("+IPD,") == 0) {
+                let colonIndex = lineBuffer.indexOf(":")
+                if (colonIndex < 0) return
+                let fields = lineBuffer.substr(5, colonIndex - 5).split(",")
+                ipdLink = fields.length == 2 || fields.length == 4 ? parseDigits(fields[0]) : -1
+                ipdRemaining = parseDigits(fields.length == 2 || fields.length == 4 ? fields[1] : fields[0])
+                lineBuffer = lineBuffer.substr(colonIndex + 1)
+                if (ipdRemaining == 0) handlePayload(ipdLink, "")
+                continue
+            }
+
+            // Binary payloads can make the text length differ from the declared
+            // byte count, so resync on a +IPD header found inside a line
+            let lineEnd = lineBuffer.indexOf("\r\n")
+            let ipdIndex = lineBuffer.indexOf("+IPD,")
+            if (ipdIndex > 0 && (lineEnd < 0 || ipdIndex < lineEnd)) {
+                lineBuffer = lineBuffer.substr(ipdIndex)
+                continue
+            }
+            if (lineEnd < 0) {
+                // Keep partial lines, but never grow without bound
+                if (lineBuffer.length > 128) lineBuffer = ""
+                return
+            }
+            handleStatusLine(lineBuffer.substr(0, lineEnd))
+            lineBuffer = lineBuffer.substr(lineEnd + 2)
+        }
+    }
+
+    /**
+     * Read whatever the ESP8266 sent, handling unsolicited messages on the way.
+     * Returns the text read. Caller must hold the UART (see lockUart).
+     */
+    //% blockHidden=true
+    export function pollUart(): string {
+        let read = serial.readBuffer(0)
+        if (read.length == 0) return ""
+        let data = pins.createBuffer(heldBytes.length + read.length)
+        for (let i = 0; i < heldBytes.length; i++) data[i] = heldBytes[i]
+        for (let i = 0; i < read.length; i++) data[heldBytes.length + i] = read[i]
+        let chunk = splitBytes(data)
+        if (chunk != "") scanIncoming(chunk)
+        return chunk
+    }
+
+    // Helper: Background reader that picks up messages while the UART is idle
+    function startUartReader() {
+        if (uartReaderStarted) return
+        uartReaderStarted = true
+        control.inBackground(() => {
+            while (true) {
+                if (!uartLocked) {
+                    uartLocked = true
+                    deliverData = true
+                    pollUart()
+                    deliverData = false
+                    uartLocked = false
+                }
+                basic.pause(50)
+            }
+        })
+    }
+
+    // ==================== CONNECTIONS ====================
+    /**
+     * Link argument for CIPSTART/CIPSEND: "<id>," in multi-connection mode
+     */
+    //% blockHidden=true
+    export function linkArg(link: number): string {
+        return multiConnection ? link + "," : ""
+    }
+
+    /**
+     * Close command for a link
+     */
+    //% blockHidden=true
+    export function closeCommand(link: number): string {
+        return multiConnection ? "AT+CIPCLOSE=" + link : "AT+CIPCLOSE"
+    }
+
+    /**
+     * Switch to multi-connection mode (AT+CIPMUX=1), needed by the server.
+     * Caller must hold the UART (see lockUart).
+     */
+    //% blockHidden=true
+    export function enableMultiConnection(): boolean {
+        if (!multiConnection) {
+            multiConnection = atCommand("AT+CIPMUX=1").ok()
+        }
+        return multiConnection
     }
 
     /**
@@ -46,7 +602,7 @@ namespace esp8266 {
         let start = input.runningTime()
         
         while (input.runningTime() - start < timeout) {
-            rxData += serial.readString()
+            rxData += pollUart()
             if (expected != "" && rxData.indexOf(expected) >= 0) {
                 return rxData
             }
@@ -83,26 +639,46 @@ namespace esp8266 {
     export function init(tx: SerialPin, rx: SerialPin, baudrate: BaudRate) {
         serial.redirect(tx, rx, baudrate)
         basic.pause(100)
+        lockUart()
 
         // Reset ESP8266
-        if (!sendCommand("AT+RST", "ready", 5000)) {
-            error(1)
+        if (!atCommand("AT+RST", "ready", 5000).ok()) {
+            unlockUart()
+            error(EspError.ResetFailed)
             return
         }
 
         // Disable echo
-        if (!sendCommand("ATE0", "OK")) {
-            error(2)
+        if (!atCommand("ATE0").ok()) {
+            unlockUart()
+            error(EspError.EchoFailed)
             return
         }
 
         // Set to station mode
-        if (!sendCommand("AT+CWMODE=1", "OK")) {
-            error(3)
+        if (!atCommand("AT+CWMODE=1").ok()) {
+            unlockUart()
+            error(EspError.ModeFailed)
             return
         }
 
+        unlockUart()
         esp8266Initialized = true
+        startUartReader()
+    }
+
+    // Helper: Decode "+CWJAP:<code>" sent before FAIL
+    function joinFailureReason(response: AtResponse): EspError {
+        let line = response.find("+CWJAP:")
+        if (line == "") {
+            return response.result == AtResult.Timeout ? EspError.WifiTimeout : EspError.WifiConnectFailed
+        }
+        switch (parseDigits(line.substr(7))) {
+            case 1: return EspError.WifiTimeout
+            case 2: return EspError.WifiWrongPassword
+            case 3: return EspError.WifiApNotFound
+        }
+        return EspError.WifiConnectFailed
     }
 
     /**
@@ -113,20 +689,32 @@ namespace esp8266 {
     //% ssid.defl="YourWiFi"
     //% password.defl="YourPassword"
     export function connectWiFi(ssid: string, password: string): boolean {
-        if (!esp8266Initialized) return false
+        return joinWiFi("AT+CWJAP", ssid, password)
+    }
+
+    /**
+     * Join a network with the given command: AT+CWJAP, or AT+CWJAP_DEF
+     * to also save the credentials in ESP8266 flash
+     */
+    //% blockHidden=true
+    export function joinWiFi(command: string, ssid: string, password: string): boolean {
+        if (!esp8266Initialized) {
+            error(EspError.NotInitialized)
+            return false
+        }
 
         wifiConnected = false
+        applyStationConfig()
         
-        if (sendCommand(
-            "AT+CWJAP=\"" + ssid + "\",\"" + password + "\"",
+        let response = runAtCommand(
+            command + "=" + atQuote(ssid) + "," + atQuote(password),
             "WIFI GOT IP",
             20000
-        )) {
-            wifiConnected = true
-            return true
-        }
-        
-        return false
+        )
+
+        wifiConnected = response.ok()
+        if (!wifiConnected) error(joinFailureReason(response), ssid)
+        return wifiConnected
     }
 
     /**
@@ -138,13 +726,123 @@ namespace esp8266 {
         return wifiConnected
     }
 
+    /**
+     * Run code when WiFi connects and gets an IP address
+     */
+    //% weight=89
+    //% block="on WiFi connected"
+    export function onWifiConnected(handler: () => void) {
+        wifiConnectedHandler = handler
+    }
+
+    /**
+     * Run code when WiFi connection is lost
+     */
+    //% weight=88
+    //% block="on WiFi disconnected"
+    export function onWifiDisconnected(handler: () => void) {
+        wifiDisconnectedHandler = handler
+    }
+
+    /**
+     * Run code when data arrives outside of a request
+     */
+    //% weight=87
+    //% block="on data received"
+    //% draggableParameters="reporter"
+    export function onDataReceived(handler: (data: string) => void) {
+        dataReceivedHandler = handler
+    }
+
     /**
      * Disconnect from WiFi
      */
     //% weight=85
     //% block="disconnect WiFi"
     export function disconnectWiFi() {
-        sendCommand("AT+CWQAP", "OK")
+        runAtCommand("AT+CWQAP")
         wifiConnected = false
     }
+
+    // ==================== ERROR REPORTING ====================
+    /**
+     * Code of the last error, 0 if none
+     */
+    //% weight=60
+    //% block="last error code"
+    export function lastError(): number {
+        return lastErrorCode
+    }
+
+    /**
+     * Human-readable message for an error code
+     */
+    //% weight=59
+    //% block="error message for %code"
+    export function errorMessage(code: EspError): string {
+        switch (code) {
+            case EspError.None: return "No error"
+            case EspError.ResetFailed: return "ESP8266 did not answer reset"
+            case EspError.EchoFailed: return "Could not turn off echo"
+            case EspError.ModeFailed: return "Could not set WiFi mode"
+            case EspError.NotInitialized: return "ESP8266 not initialized"
+            case EspError.WifiDown: return "WiFi not connected"
+            case EspError.WifiConnectFailed: return "WiFi connect failed"
+            case EspError.WifiTimeout: return "WiFi connect timed out"
+            case EspError.WifiWrongPassword: return "WiFi password is wrong"
+            case EspError.WifiApNotFound: return "WiFi network not found"
+            case EspError.DnsFailed: return "DNS lookup failed"
+            case EspError.ConnectFailed: return "Could not connect to server"
+            case EspError.TlsFailed: return "TLS connection failed"
+            case EspError.SendFailed: return "Sending data failed"
+            case EspError.Timeout: return "Timed out waiting for response"
+            case EspError.HttpStatus: return "Server returned an error status"
+            case EspError.FirebaseNotConfigured: return "Firebase not configured"
+            case EspError.FirebaseAuthFailed: return "Firebase sign-in failed"
+            case EspError.MqttRefused: return "MQTT broker refused connection"
+            case EspError.MqttPacketTooLarge: return "MQTT packet too large to receive"
+        }
+        return "Unknown error " + code
+    }
+
+    /**
+     * Message for the last error, including details such as the HTTP status
+     */
+    //% weight=58
+    //% block="last error message"
+    export function lastErrorMessage(): string {
+        let message = errorMessage(lastErrorCode)
+        if (lastErrorDetail != "") message += ": " + lastErrorDetail
+        return message
+    }
+
+    /**
+     * Forget the last error
+     */
+    //% weight=57
+    //% block="clear last error"
+    export function clearError() {
+        lastErrorCode = EspError.None
+        lastErrorDetail = ""
+    }
+
+    /**
+     * Run code when the library reports an error
+     */
+    //% weight=56
+    //% block="on ESP8266 error"
+    //% draggableParameters="reporter"
+    export function onError(handler: (code: number, message: string) => void) {
+        errorHandler = handler
+    }
+
+    /**
+     * Scroll "E<code>" on the LED matrix whenever an error is reported
+     */
+    //% weight=55
+    //% block="show errors on LED %enabled"
+    //% enabled.defl=true
+    export function setShowErrorsOnLed(enabled: boolean) {
+        showErrorsOnLed = enabled
+    }
 }
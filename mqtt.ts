@@ -0,0 +1,533 @@
+/**
+ * MQTT 3.1.1 client on its own link (AT+CIPSTART / AT+CIPSEND).
+ * Packets are sent as bytes, and the link's +IPD payloads are read as
+ * bytes too (see addLinkBytesListener) so no byte value is lost.
+ */
+namespace esp8266 {
+    // ==================== MQTT VARIABLES ====================
+    let mqttHost = ""
+    let mqttPort = 1883
+    let mqttSecure = false
+    let mqttClientId = ""
+    let mqttUsername = ""
+    let mqttPassword = ""
+    let mqttKeepAlive = 60
+    let mqttConnected = false
+    let mqttConnecting = false
+    let mqttWanted = false // Reconnect after a drop until "MQTT disconnect"
+    let mqttFiberStarted = false
+    let mqttRxBuffer = pins.createBuffer(0)
+    let mqttSkipLeft = 0 // Bytes still to drop of a packet that was too large
+    let mqttConnackCode = -1
+    let mqttNextPacketId = 1
+    let mqttAckedPacketId = 0
+    let mqttLastSent = 0
+    let mqttLastReceived = 0
+
+    // Subscriptions are kept to subscribe again after a reconnect
+    let subscriptionTopics: string[] = []
+    let subscriptionQos: number[] = []
+    let messageFilters: string[] = []
+    let messageHandlers: ((message: string, receivedTopic: string) => void)[] = []
+
+    const MQTT_ACK_TIMEOUT = 3000
+    const MQTT_CONNACK_TIMEOUT = 5000
+    const MQTT_MIN_BACKOFF = 2000
+    const MQTT_MAX_BACKOFF = 60000
+    // Larger incoming packets are skipped, they would not fit the micro:bit's memory
+    const MQTT_MAX_PACKET = 1024
+
+    /**
+     * MQTT delivery guarantee
+     */
+    export enum MqttQos {
+        //% block="0 (at most once)"
+        AtMostOnce = 0,
+        //% block="1 (at least once)"
+        AtLeastOnce = 1
+    }
+
+    // ==================== MQTT HELPER FUNCTIONS ====================
+    // Helper: Append a 16-bit big-endian number
+    function pushUint16(bytes: number[], value: number) {
+        bytes.push((value >> 8) & 0xff)
+        bytes.push(value & 0xff)
+    }
+
+    // Helper: Append the UTF-8 bytes of a text
+    function pushText(bytes: number[], text: string) {
+        let data = control.createBufferFromUTF8(text)
+        for (let i = 0; i < data.length; i++) bytes.push(data[i])
+    }
+
+    // Helper: Append a length-prefixed UTF-8 string
+    function pushString(bytes: number[], text: string) {
+        let data = control.createBufferFromUTF8(text)
+        pushUint16(bytes, data.length)
+        for (let i = 0; i < data.length; i++) bytes.push(data[i])
+    }
+
+    // Helper: Fixed header with the remaining length, followed by the body
+    function mqttPacket(header: number, body: number[]): Buffer {
+        let head = [header]
+        let remaining = body.length
+        while (true) {
+            let digit = remaining % 128
+            remaining = Math.idiv(remaining, 128)
+            head.push(remaining > 0 ? digit | 0x80 : digit)
+            if (remaining == 0) break
+        }
+        let packet = pins.createBuffer(head.length + body.length)
+        for (let i = 0; i < head.length; i++) packet[i] = head[i]
+        for (let i = 0; i < body.length; i++) packet[head.length + i] = body[i]
+        return packet
+    }
+
+    // Helper: CONNECT with clean session, credentials and keep-alive
+    function connectPacket(): Buffer {
+        let body: number[] = []
+        pushString(body, "MQTT")
+        body.push(4) // Protocol level 3.1.1
+        let flags = 0x02
+        // A password is only allowed together with a user name
+        if (mqttUsername != "") {
+            flags |= 0x80
+            if (mqttPassword != "") flags |= 0x40
+        }
+        body.push(flags)
+        pushUint16(body, mqttKeepAlive)
+        pushString(body, mqttClientId)
+        if (mqttUsername != "") {
+            pushString(body, mqttUsername)
+            if (mqttPassword != "") pushString(body, mqttPassword)
+        }
+        return mqttPacket(0x10, body)
+    }
+
+    // Helper: PUBLISH, the packet id is only sent for QoS 1
+    function publishPacket(topic: string, message: string, qos: number, retain: boolean, packetId: number, duplicate: boolean): Buffer {
+        let body: number[] = []
+        pushString(body, topic)
+        if (qos > 0) pushUint16(body, packetId)
+        pushText(body, message)
+        let header = 0x30 | (qos << 1)
+        if (retain) header |= 0x01
+        if (duplicate) header |= 0x08
+        return mqttPacket(header, body)
+    }
+
+    // Helper: SUBSCRIBE to one topic filter
+    function subscribePacket(topic: string, qos: number): Buffer {
+        let body: number[] = []
+        pushUint16(body, nextPacketId())
+        pushString(body, topic)
+        body.push(qos)
+        return mqttPacket(0x82, body)
+    }
+
+    // Helper: Packet ids run from 1 to 65535, 0 is not allowed
+    function nextPacketId(): number {
+        let id = mqttNextPacketId
+        mqttNextPacketId = mqttNextPacketId >= 65535 ? 1 : mqttNextPacketId + 1
+        return id
+    }
+
+    // Helper: Readable reason for a CONNACK return code
+    function connackReason(code: number): string {
+        switch (code) {
+            case 1: return "protocol version"
+            case 2: return "client id rejected"
+            case 3: return "server unavailable"
+            case 4: return "bad user name or password"
+            case 5: return "not authorized"
+        }
+        return "code " + code
+    }
+
+    // Helper: Match a topic against a filter with + and # wildcards
+    function topicMatches(filter: string, topic: string): boolean {
+        let filterLevels = filter.split("/")
+        let topicLevels = topic.split("/")
+        for (let i = 0; i < filterLevels.length; i++) {
+            if (filterLevels[i] == "#") return true
+            if (i >= topicLevels.length) return false
+            if (filterLevels[i] != "+" && filterLevels[i] != topicLevels[i]) return false
+        }
+        return filterLevels.length == topicLevels.length
+    }
+
+    // Helper: Send one packet on the MQTT link. Caller must hold the UART (see lockUart).
+    function sendPacket(packet: Buffer): boolean {
+        if (!atCommand("AT+CIPSEND=" + MQTT_LINK + "," + packet.length, ">", 2000).ok()) return false
+        serial.writeBuffer(packet)
+        if (getResponse("SEND OK", 3000).indexOf("SEND OK") < 0) return false
+        mqttLastSent = input.runningTime()
+        return true
+    }
+
+    // Helper: Send one packet, taking the UART
+    function writePacket(packet: Buffer): boolean {
+        lockUart()
+        let ok = sendPacket(packet)
+        unlockUart()
+        if (!ok) error(EspError.SendFailed, "MQTT")
+        return ok
+    }
+
+    // Helper: Collect data of the MQTT link, dropping what is left of a skipped packet
+    function onMqttData(data: Buffer) {
+        mqttLastReceived = input.runningTime()
+        let start = Math.min(mqttSkipLeft, data.length)
+        mqttSkipLeft -= start
+        let joined = pins.createBuffer(mqttRxBuffer.length + data.length - start)
+        for (let i = 0; i < mqttRxBuffer.length; i++) joined[i] = mqttRxBuffer[i]
+        for (let i = start; i < data.length; i++) joined[mqttRxBuffer.length + i - start] = data[i]
+        mqttRxBuffer = joined
+    }
+
+    // Helper: Notice when the broker or the module closes the link
+    function onMqttLinkClosed(link: number) {
+        if (link == MQTT_LINK) {
+            mqttConnected = false
+            mqttRxBuffer = pins.createBuffer(0)
+            mqttSkipLeft = 0
+        }
+    }
+
+    // Helper: Run a message handler in its own fiber
+    function runMessageHandler(handler: (message: string, receivedTopic: string) => void, message: string, topic: string) {
+        control.inBackground(() => handler(message, topic))
+    }
+
+    // Helper: Acknowledge a QoS 1 message and pass it to matching handlers
+    function handlePublish(header: number, body: Buffer) {
+        let qos = (header >> 1) & 0x03
+        if (body.length < 2) return
+        let topicLength = body[0] * 256 + body[1]
+        let offset = 2 + topicLength + (qos > 0 ? 2 : 0)
+        // A topic running past the packet means a broken packet, not a message
+        if (offset > body.length) return
+        let topic = body.slice(2, topicLength).toString()
+        if (qos > 0) {
+            let ack: number[] = []
+            pushUint16(ack, body[offset - 2] * 256 + body[offset - 1])
+            writePacket(mqttPacket(0x40, ack))
+        }
+        let message = body.slice(offset).toString()
+        for (let i = 0; i < messageFilters.length; i++) {
+            if (topicMatches(messageFilters[i], topic)) {
+                runMessageHandler(messageHandlers[i], message, topic)
+            }
+        }
+    }
+
+    // Helper: Handle every complete packet in the receive buffer
+    function processIncoming() {
+        while (mqttRxBuffer.length >= 2) {
+            let header = mqttRxBuffer[0]
+
+            // Remaining length: 7 bits per byte, the high bit means another byte follows
+            let remaining = 0
+            let multiplier = 1
+            let index = 1
+            while (true) {
+                if (index >= mqttRxBuffer.length) return
+                let digit = mqttRxBuffer[index]
+                remaining += (digit & 0x7f) * multiplier
+                multiplier *= 128
+                index++
+                if ((digit & 0x80) == 0 || index > 4) break
+            }
+
+            if (remaining > MQTT_MAX_PACKET) {
+                let buffered = mqttRxBuffer.length - index
+                mqttSkipLeft = remaining > buffered ? remaining - buffered : 0
+                mqttRxBuffer = mqttRxBuffer.slice(index + remaining - mqttSkipLeft)
+                error(EspError.MqttPacketTooLarge)
+                continue
+            }
+            if (mqttRxBuffer.length < index + remaining) return
+            let body = mqttRxBuffer.slice(index, remaining)
+            mqttRxBuffer = mqttRxBuffer.slice(index + remaining)
+
+            let type = header >> 4
+            if (type == 2) {
+                // CONNACK: session present flag, then the return code
+                mqttConnackCode = body.length >= 2 ? body[1] : 255
+            } else if (type == 3) {
+                handlePublish(header, body)
+            } else if (type == 4) {
+                // PUBACK for a QoS 1 publish
+                if (body.length >= 2) mqttAckedPacketId = body[0] * 256 + body[1]
+            }
+            // SUBACK and PINGRESP only need to arrive
+        }
+    }
+
+    // Helper: Wait for a PUBACK with the given packet id
+    function waitForPuback(packetId: number): boolean {
+        let start = input.runningTime()
+        while (input.runningTime() - start < MQTT_ACK_TIMEOUT) {
+            processIncoming()
+            if (mqttAckedPacketId == packetId) return true
+            if (!mqttConnected) return false
+            basic.pause(50)
+        }
+        return false
+    }
+
+    // Helper: Open a session unless another fiber is already opening one, then wait for it
+    function openSession(): boolean {
+        if (mqttConnecting) {
+            while (mqttConnecting) basic.pause(50)
+            return mqttConnected
+        }
+        mqttConnecting = true
+        let ok = connectSession()
+        mqttConnecting = false
+        return ok
+    }
+
+    // Helper: Open the link, send CONNECT, wait for CONNACK and subscribe again
+    function connectSession(): boolean {
+        if (!isWifiConnected()) {
+            error(EspError.WifiDown)
+            return false
+        }
+        mqttConnected = false
+        mqttRxBuffer = pins.createBuffer(0)
+        mqttSkipLeft = 0
+        mqttConnackCode = -1
+
+        lockUart()
+        if (!enableMultiConnection()) {
+            unlockUart()
+            error(EspError.ConnectFailed, "MQTT needs AT+CIPMUX=1")
+            return false
+        }
+        // A link left over from before a drop would block CIPSTART
+        atCommand("AT+CIPCLOSE=" + MQTT_LINK)
+        if (mqttSecure) releasePooledSsl()
+        let connectType = mqttSecure ? "SSL" : "TCP"
+        let response = atCommand("AT+CIPSTART=" + MQTT_LINK + ",\"" + connectType + "\",\"" + mqttHost + "\"," + mqttPort, "CONNECT", 10000)
+        let sent = response.ok() && sendPacket(connectPacket())
+        unlockUart()
+
+        if (!response.ok()) {
+            reportConnectError(response, mqttSecure, mqttHost)
+            return false
+        }
+        if (!sent) {
+            runAtCommand("AT+CIPCLOSE=" + MQTT_LINK)
+            error(EspError.SendFailed, "MQTT")
+            return false
+        }
+
+        // The CONNACK arrives through the background UART reader
+        let start = input.runningTime()
+        while (mqttConnackCode < 0 && input.runningTime() - start < MQTT_CONNACK_TIMEOUT) {
+            basic.pause(50)
+            processIncoming()
+        }
+        if (mqttConnackCode != 0) {
+            runAtCommand("AT+CIPCLOSE=" + MQTT_LINK)
+            if (mqttConnackCode < 0) {
+                error(EspError.Timeout, "MQTT " + mqttHost)
+            } else {
+                error(EspError.MqttRefused, connackReason(mqttConnackCode))
+            }
+            return false
+        }
+
+        mqttConnected = true
+        mqttLastReceived = input.runningTime()
+        for (let i = 0; i < subscriptionTopics.length; i++) {
+            writePacket(subscribePacket(subscriptionTopics[i], subscriptionQos[i]))
+        }
+        return true
+    }
+
+    // Helper: Give up on a silent link so that it is opened again
+    function dropSession() {
+        mqttConnected = false
+        runAtCommand("AT+CIPCLOSE=" + MQTT_LINK)
+    }
+
+    // Helper: Remember a subscription and send it if connected
+    function addSubscription(topic: string, qos: number) {
+        let index = subscriptionTopics.indexOf(topic)
+        if (index >= 0) {
+            subscriptionQos[index] = qos
+        } else {
+            subscriptionTopics.push(topic)
+            subscriptionQos.push(qos)
+        }
+        if (mqttConnected) writePacket(subscribePacket(topic, qos))
+    }
+
+    // Helper: Background fiber for incoming packets, keep-alive and reconnects
+    function startMqttFiber() {
+        if (mqttFiberStarted) return
+        mqttFiberStarted = true
+        addLinkBytesListener(MQTT_LINK, onMqttData)
+        addLinkClosedListener(onMqttLinkClosed)
+        control.inBackground(() => {
+            let backoff = MQTT_MIN_BACKOFF
+            let retryAt = 0
+            while (true) {
+                let now = input.runningTime()
+                if (mqttConnected) {
+                    processIncoming()
+                    let keepAliveMs = mqttKeepAlive * 1000
+                    if (keepAliveMs > 0 && now - mqttLastReceived > keepAliveMs * 3 / 2) {
+                        // No answer to our pings: the link is dead
+                        dropSession()
+                    } else if (keepAliveMs > 0 && now - mqttLastSent > keepAliveMs / 2) {
+                        writePacket(mqttPacket(0xc0, []))
+                    }
+                } else if (mqttWanted && !mqttConnecting && isWifiConnected() && now >= retryAt) {
+                    if (openSession()) {
+                        backoff = MQTT_MIN_BACKOFF
+                    } else {
+                        retryAt = input.runningTime() + backoff
+                        backoff = Math.min(backoff * 2, MQTT_MAX_BACKOFF)
+                    }
+                }
+                basic.pause(100)
+            }
+        })
+    }
+
+    /**
+     * True while MQTT holds the module's single SSL connection
+     */
+    //% blockHidden=true
+    export function mqttHoldsSsl(): boolean {
+        return mqttSecure && (mqttConnected || mqttConnecting)
+    }
+
+    // ==================== MQTT PUBLIC API ====================
+    /**
+     * Set user name and password for the MQTT broker, leave empty for none
+     */
+    //% subcategory="MQTT"
+    //% weight=100
+    //% block="MQTT credentials|user %username|password %password"
+    //% username.defl=""
+    //% password.defl=""
+    export function setMqttCredentials(username: string, password: string) {
+        mqttUsername = username
+        mqttPassword = password
+    }
+
+    /**
+     * Set how often the broker expects to hear from us, 0 turns keep-alive off
+     */
+    //% subcategory="MQTT"
+    //% weight=99
+    //% block="MQTT keep-alive %seconds|s"
+    //% seconds.defl=60 seconds.min=0 seconds.max=65535
+    export function setMqttKeepAlive(seconds: number) {
+        mqttKeepAlive = Math.max(0, Math.min(65535, seconds))
+    }
+
+    /**
+     * Connect to an MQTT broker. After a drop the connection is opened again
+     * and all topics are subscribed again, until "MQTT disconnect".
+     */
+    //% subcategory="MQTT"
+    //% weight=98
+    //% block="MQTT connect|host %host|port %port|client id %clientId|SSL %secure"
+    //% host.defl="broker.hivemq.com"
+    //% port.defl=1883
+    //% clientId.defl="microbit"
+    //% secure.defl=false
+    export function mqttConnect(host: string, port: number, clientId: string, secure: boolean): boolean {
+        if (!esp8266Initialized) {
+            error(EspError.NotInitialized)
+            return false
+        }
+        mqttHost = host
+        mqttPort = port
+        mqttClientId = clientId
+        mqttSecure = secure
+        startMqttFiber()
+
+        mqttWanted = true
+        return openSession()
+    }
+
+    /**
+     * Publish a message to a topic. QoS 1 waits for the broker and sends once more if needed.
+     */
+    //% subcategory="MQTT"
+    //% weight=97
+    //% block="MQTT publish|topic %topic|message %message|QoS %qos|retain %retain"
+    //% topic.defl="microbit/temperature"
+    //% message.defl="25"
+    //% retain.defl=false
+    export function mqttPublish(topic: string, message: string, qos: MqttQos, retain: boolean) {
+        if (!mqttConnected) {
+            error(EspError.ConnectFailed, "MQTT not connected")
+            return
+        }
+        if (qos == MqttQos.AtMostOnce) {
+            writePacket(publishPacket(topic, message, 0, retain, 0, false))
+            return
+        }
+
+        let packetId = nextPacketId()
+        if (writePacket(publishPacket(topic, message, 1, retain, packetId, false)) && waitForPuback(packetId)) return
+        if (mqttConnected && writePacket(publishPacket(topic, message, 1, retain, packetId, true)) && waitForPuback(packetId)) return
+        error(EspError.Timeout, "MQTT PUBACK")
+    }
+
+    /**
+     * Subscribe to a topic, + and # wildcards are allowed
+     */
+    //% subcategory="MQTT"
+    //% weight=96
+    //% block="MQTT subscribe|topic %topic|QoS %qos"
+    //% topic.defl="microbit/led"
+    export function mqttSubscribe(topic: string, qos: MqttQos) {
+        addSubscription(topic, qos)
+    }
+
+    /**
+     * Run code when a message arrives on a topic (subscribes with QoS 0 if needed)
+     */
+    //% subcategory="MQTT"
+    //% weight=95
+    //% block="on MQTT message received on topic %topic"
+    //% topic.defl="microbit/led"
+    //% draggableParameters="reporter"
+    export function onMqttMessage(topic: string, handler: (message: string, receivedTopic: string) => void) {
+        messageFilters.push(topic)
+        messageHandlers.push(handler)
+        if (subscriptionTopics.indexOf(topic) < 0) addSubscription(topic, MqttQos.AtMostOnce)
+    }
+
+    /**
+     * Check if the MQTT broker connection is up
+     */
+    //% subcategory="MQTT"
+    //% weight=94
+    //% block="MQTT connected"
+    export function mqttIsConnected(): boolean {
+        return mqttConnected
+    }
+
+    /**
+     * Disconnect from the MQTT broker and stop reconnecting
+     */
+    //% subcategory="MQTT"
+    //% weight=93
+    //% block="MQTT disconnect"
+    export function mqttDisconnect() {
+        mqttWanted = false
+        if (!mqttConnected) return
+        writePacket(mqttPacket(0xe0, []))
+        mqttConnected = false
+        runAtCommand("AT+CIPCLOSE=" + MQTT_LINK)
+    }
+}
@@ -0,0 +1,181 @@
+/**
+ * WiFi provisioning: a setup portal on a soft AP, or SmartConfig.
+ * Credentials are saved in ESP8266 flash with AT+CWJAP_DEF, so the module
+ * joins the network by itself after the next reset.
+ */
+namespace esp8266 {
+    // ==================== PROVISIONING VARIABLES ====================
+    let portalActive = false
+    let portalRoutesAdded = false
+    let provisionedHandler: (ssid: string) => void = null
+
+    // How long to wait for the module to rejoin a network saved in its flash
+    const SAVED_NETWORK_WAIT = 10000
+
+    // ==================== PROVISIONING HELPER FUNCTIONS ====================
+    // Helper: Escape text for use inside HTML
+    function htmlEscape(text: string): string {
+        let result = ""
+        for (let i = 0; i < text.length; i++) {
+            let char = text.charAt(i)
+            if (char == "&") result += "&amp;"
+            else if (char == "<") result += "&lt;"
+            else if (char == ">") result += "&gt;"
+            else if (char == "\"") result += "&quot;"
+            else result += char
+        }
+        return result
+    }
+
+    // Helper: Setup page with the networks in range as suggestions
+    function setupPage(): string {
+        let options = ""
+        let networks = scanNetworks()
+        for (let i = 0; i < networks.length; i++) {
+            options += "<option value=\"" + htmlEscape(networks[i].ssid) + "\">"
+        }
+        return "<!DOCTYPE html><html><head><meta name=\"viewport\" content=\"width=device-width\">" +
+            "<title>WiFi setup</title></head><body><h3>WiFi setup</h3>" +
+            "<form method=\"POST\" action=\"/save\">" +
+            "<p>SSID<br><input name=\"ssid\" list=\"n\"><datalist id=\"n\">" + options + "</datalist></p>" +
+            "<p>Password<br><input name=\"password\" type=\"password\"></p>" +
+            "<p><button>Save</button></p></form></body></html>"
+    }
+
+    // Helper: Save submitted credentials and join the network
+    function handleSave() {
+        // Form may come as POST body or as query string
+        let form = webRequestMethod() == "POST" ? webRequestBody() : ""
+        let ssid = form != "" ? formValue(form, "ssid") : webQueryParam("ssid")
+        let password = form != "" ? formValue(form, "password") : webQueryParam("password")
+        if (ssid == "") {
+            webRespond(400, "text/html", "<p>SSID missing. <a href=\"/\">Back</a></p>")
+            return
+        }
+        webRespond(200, "text/html", "<p>Saved. Connecting to " + htmlEscape(ssid) + "...</p>")
+
+        // Access point stays up so the form can be sent again on failure
+        if (joinWiFi("AT+CWJAP_DEF", ssid, password)) {
+            addWiFiNetwork(ssid, password)
+            stopWifiSetup()
+            if (provisionedHandler) {
+                control.inBackground(() => provisionedHandler(ssid))
+            }
+        }
+    }
+
+    // Helper: Wait for the module to rejoin the network saved in its flash
+    function waitForSavedNetwork(timeout: number): boolean {
+        let start = input.runningTime()
+        while (!isWifiConnected() && input.runningTime() - start < timeout) {
+            basic.pause(200)
+        }
+        return isWifiConnected()
+    }
+
+    // ==================== PROVISIONING PUBLIC API ====================
+    /**
+     * Start a WiFi setup portal: an access point with a page to enter credentials
+     */
+    //% subcategory="WiFi"
+    //% weight=60
+    //% block="start WiFi setup portal|SSID %apSsid|Password %apPassword"
+    //% apSsid.defl="microbit-setup"
+    //% apPassword.defl=""
+    export function startWifiSetup(apSsid: string, apPassword: string) {
+        if (!portalRoutesAdded) {
+            portalRoutesAdded = true
+            onWebRequest(WebMethod.Get, "/", () => {
+                if (portalActive) webRespond(200, "text/html", setupPage())
+            })
+            onWebRequest(WebMethod.Any, "/save", () => {
+                if (portalActive) handleSave()
+            })
+        }
+        startAccessPoint(apSsid, apPassword, 5)
+        portalActive = startWebServer(80)
+    }
+
+    /**
+     * Stop the WiFi setup portal and its access point
+     */
+    //% subcategory="WiFi"
+    //% weight=59
+    //% block="stop WiFi setup portal"
+    export function stopWifiSetup() {
+        if (!portalActive) return
+        portalActive = false
+        stopWebServer()
+        setWifiMode(WifiMode.Station)
+    }
+
+    /**
+     * Join a saved network, or start the setup portal if none works
+     */
+    //% subcategory="WiFi"
+    //% weight=58
+    //% block="connect to saved WiFi or start setup portal|SSID %apSsid|Password %apPassword"
+    //% apSsid.defl="microbit-setup"
+    //% apPassword.defl=""
+    export function connectOrStartSetup(apSsid: string, apPassword: string): boolean {
+        if (!esp8266Initialized) {
+            error(EspError.NotInitialized)
+            return false
+        }
+
+        // Network saved in ESP8266 flash, then networks added with blocks
+        if (waitForSavedNetwork(SAVED_NETWORK_WAIT) || connectToBestNetwork()) {
+            return true
+        }
+        startWifiSetup(apSsid, apPassword)
+        return false
+    }
+
+    /**
+     * Check if the setup portal is running
+     */
+    //% subcategory="WiFi"
+    //% weight=57
+    //% block="WiFi setup portal active"
+    export function isWifiSetupActive(): boolean {
+        return portalActive
+    }
+
+    /**
+     * Run code when the setup portal saved new credentials and connected
+     */
+    //% subcategory="WiFi"
+    //% weight=56
+    //% block="on WiFi provisioned"
+    //% draggableParameters="reporter"
+    export function onWifiProvisioned(handler: (ssid: string) => void) {
+        provisionedHandler = handler
+    }
+
+    /**
+     * Wait for credentials from the ESP-Touch/AirKiss phone app (SmartConfig)
+     */
+    //% subcategory="WiFi"
+    //% weight=55
+    //% block="WiFi SmartConfig|timeout %timeout|ms"
+    //% timeout.defl=60000
+    export function startSmartConfig(timeout: number): boolean {
+        if (!esp8266Initialized) {
+            error(EspError.NotInitialized)
+            return false
+        }
+
+        // SmartConfig needs station mode; type 3 accepts ESP-Touch and AirKiss
+        setWifiMode(WifiMode.Station)
+        if (!runAtCommand("AT+CWSTARTSMART=3").ok()) {
+            error(EspError.ModeFailed, "SmartConfig")
+            return false
+        }
+
+        // The module saves the credentials and reports WIFI GOT IP by itself
+        let connected = waitForSavedNetwork(timeout)
+        runAtCommand("AT+CWSTOPSMART")
+        if (!connected) error(EspError.WifiTimeout, "SmartConfig")
+        return connected
+    }
+}
@@ -0,0 +1,212 @@
+/**
+ * Offline queue for sensor uploads that could not reach the server.
+ * The queue lives in RAM: the micro:bit core has no file API for flash,
+ * so queued readings are lost when the board resets or loses power.
+ * Late readings carry the time they were taken in "waktu", like the
+ * Firebase timestamp option, once the network time is synced.
+ */
+namespace esp8266 {
+    // ==================== QUEUE VARIABLES ====================
+    let queueEnabled = false
+    let queueBudget = 2000
+    let queueBytes = 0
+    let queueDropped = 0
+    let queueFiberStarted = false
+    let queueFlushing = false
+    let queueRetryAt = 0
+    let queueBackoff = 0
+    let uploads: QueuedUpload[] = []
+
+    const QUEUE_MIN_BACKOFF = 5000
+    const QUEUE_MAX_BACKOFF = 300000
+    // Bookkeeping per entry on top of its texts
+    const QUEUE_ENTRY_OVERHEAD = 24
+
+    /**
+     * Upload that can be kept in the offline queue
+     */
+    export enum UploadKind {
+        FirebaseSensor,
+        HttpPost,
+        GoogleScript
+    }
+
+    // Helper: One reading waiting to be sent again
+    class QueuedUpload {
+        kind: UploadKind
+        path: string
+        target: string
+        body: string
+        headers: HttpHeaders
+        capturedAt: number
+
+        constructor(kind: UploadKind, target: string, body: string) {
+            this.kind = kind
+            // Firebase uploads go to the path that was set when they were taken
+            this.path = kind == UploadKind.FirebaseSensor ? firebasePath : ""
+            this.target = target
+            this.body = body
+            // HTTP uploads keep the headers they were sent with
+            this.headers = kind == UploadKind.FirebaseSensor ? null : takeRequestHeaders(null)
+            this.capturedAt = input.runningTime()
+        }
+
+        size(): number {
+            return this.path.length + this.target.length + this.body.length + QUEUE_ENTRY_OVERHEAD
+        }
+    }
+
+    // ==================== QUEUE HELPER FUNCTIONS ====================
+    // Helper: Add the time a late reading was taken as "waktu" (milliseconds since 1970)
+    // to its JSON object, unless it has one or the network time is unknown
+    function withCaptureTime(body: string, capturedAt: number, late: boolean): string {
+        let waktu = unixMillisTextAt(capturedAt)
+        if (!late || waktu == "" || body.charAt(body.length - 1) != "}" || jsonMember(body, "waktu") != "") return body
+        let separator = jsonValueText(body) == "{}" ? "" : ","
+        return body.substr(0, body.length - 1) + separator + "\"waktu\":" + waktu + "}"
+    }
+
+    // Helper: Send one upload, true when the server accepted it
+    function deliver(upload: QueuedUpload, late: boolean): boolean {
+        let body = withCaptureTime(upload.body, upload.capturedAt, late)
+        if (upload.kind == UploadKind.FirebaseSensor) {
+            sendFirebaseData(upload.path, new JsonObject().setRaw(upload.target, body).toString())
+            return firebaseDataSent
+        }
+        if (upload.kind == UploadKind.GoogleScript) {
+            return sendToGoogleScript(upload.target, body, upload.headers)
+        }
+        httpRequestWithHeaders("POST", upload.target, body, "application/json", upload.headers, followRedirects)
+        return lastHttpResponse.isSuccess()
+    }
+
+    // Helper: Status of the last delivery attempt
+    function lastUploadStatus(upload: QueuedUpload): number {
+        return upload.kind == UploadKind.FirebaseSensor ? firebaseLastStatus : lastHttpResponse.statusCode
+    }
+
+    // Helper: Worth another try: no answer at all, or the server is busy or failing
+    function isTransientStatus(status: number): boolean {
+        return status == 0 || status == 408 || status == 429 || status >= 500
+    }
+
+    // Helper: Keep an upload, dropping the oldest ones beyond the budget
+    function enqueue(upload: QueuedUpload) {
+        uploads.push(upload)
+        queueBytes += upload.size()
+        while (queueBytes > queueBudget && uploads.length > 0) {
+            queueBytes -= uploads.removeAt(0).size()
+            queueDropped++
+        }
+        startQueueFiber()
+    }
+
+    // Helper: Send queued uploads oldest first, until one fails for a passing reason
+    function flushQueue() {
+        // Only one fiber at a time may send the head of the queue
+        if (queueFlushing) return
+        queueFlushing = true
+        while (uploads.length > 0 && isWifiConnected()) {
+            let upload = uploads[0]
+            let delivered = deliver(upload, true)
+            if (!delivered && isTransientStatus(lastUploadStatus(upload))) {
+                queueRetryAt = input.runningTime() + queueBackoff
+                queueBackoff = Math.min(queueBackoff * 2, QUEUE_MAX_BACKOFF)
+                break
+            }
+            // Delivered, or refused for good (e.g. 400 or 401): either way it leaves the queue
+            if (!delivered) queueDropped++
+            if (uploads.length > 0 && uploads[0] == upload) {
+                uploads.removeAt(0)
+                queueBytes -= upload.size()
+            }
+            queueBackoff = QUEUE_MIN_BACKOFF
+        }
+        queueFlushing = false
+    }
+
+    // Helper: Background fiber that retries with backoff while WiFi is up
+    function startQueueFiber() {
+        if (queueFiberStarted) return
+        queueFiberStarted = true
+        queueBackoff = QUEUE_MIN_BACKOFF
+        control.inBackground(() => {
+            while (true) {
+                if (uploads.length > 0 && isWifiConnected() && input.runningTime() >= queueRetryAt) {
+                    flushQueue()
+                }
+                basic.pause(1000)
+            }
+        })
+    }
+
+    /**
+     * Send an upload now, or keep it in the offline queue if that is enabled
+     * and the server cannot be reached. Returns true only when delivered now.
+     */
+    //% blockHidden=true
+    export function sendOrQueue(kind: UploadKind, target: string, body: string): boolean {
+        let upload = new QueuedUpload(kind, target, body)
+
+        // Older readings go first, so new ones wait behind them
+        if (queueEnabled && uploads.length > 0) {
+            enqueue(upload)
+            return false
+        }
+        if (deliver(upload, false)) return true
+        if (queueEnabled && isTransientStatus(lastUploadStatus(upload))) enqueue(upload)
+        return false
+    }
+
+    // ==================== QUEUE PUBLIC API ====================
+    /**
+     * Keep sensor uploads that fail while offline and send them later.
+     * The queue is kept in RAM only, it is not saved to flash: queued readings
+     * are lost when the micro:bit resets or loses power.
+     * The oldest readings are dropped beyond the budget.
+     */
+    //% subcategory="Queue"
+    //% weight=100
+    //% block="offline queue (RAM only, lost on reset) %enabled|memory budget %budget|bytes"
+    //% enabled.defl=true
+    //% budget.defl=2000 budget.min=200 budget.max=8000
+    export function setOfflineQueue(enabled: boolean, budget: number) {
+        queueEnabled = enabled
+        queueBudget = budget
+        while (queueBytes > queueBudget && uploads.length > 0) {
+            queueBytes -= uploads.removeAt(0).size()
+            queueDropped++
+        }
+    }
+
+    /**
+     * Number of uploads waiting in the offline queue
+     */
+    //% subcategory="Queue"
+    //% weight=99
+    //% block="offline queue length"
+    export function offlineQueueLength(): number {
+        return uploads.length
+    }
+
+    /**
+     * Try to send all queued uploads now
+     */
+    //% subcategory="Queue"
+    //% weight=98
+    //% block="offline queue flush now"
+    export function flushOfflineQueue() {
+        queueBackoff = QUEUE_MIN_BACKOFF
+        flushQueue()
+    }
+
+    /**
+     * Number of uploads dropped because of the budget or refused by the server
+     */
+    //% subcategory="Queue"
+    //% weight=97
+    //% block="offline queue dropped count"
+    export function offlineQueueDropped(): number {
+        return queueDropped
+    }
+}
@@ -0,0 +1,347 @@
+/**
+ * Small HTTP server on top of AT+CIPSERVER.
+ * Requests are handled one at a time and every response closes the link.
+ */
+namespace esp8266 {
+    // ==================== SERVER VARIABLES ====================
+    //% blockHidden=true
+    export let serverRunning = false
+    let serverFiberStarted = false
+    let routeMethods: string[] = []
+    let routePaths: string[] = []
+    let routeHandlers: (() => void)[] = []
+    let linkBuffers: string[] = ["", ""]
+
+    // Request being handled
+    let requestLink = -1
+    let requestMethod = ""
+    let requestPath = ""
+    let requestQuery = ""
+    let requestBody = ""
+    let responded = false
+
+    // Incoming connections get the lowest free link ids
+    const SERVER_MAX_CONN = 2
+
+    /**
+     * HTTP method matched by a route
+     */
+    export enum WebMethod {
+        //% block="GET"
+        Get,
+        //% block="POST"
+        Post,
+        //% block="PUT"
+        Put,
+        //% block="DELETE"
+        Delete,
+        //% block="any"
+        Any
+    }
+
+    // ==================== SERVER HELPER FUNCTIONS ====================
+    // Helper: Method name for a route, "" matches any method
+    function methodName(method: WebMethod): string {
+        switch (method) {
+            case WebMethod.Get: return "GET"
+            case WebMethod.Post: return "POST"
+            case WebMethod.Put: return "PUT"
+            case WebMethod.Delete: return "DELETE"
+        }
+        return ""
+    }
+
+    // Helper: Reason phrase for common status codes
+    function reasonPhrase(status: number): string {
+        switch (status) {
+            case 200: return "OK"
+            case 201: return "Created"
+            case 204: return "No Content"
+            case 302: return "Found"
+            case 400: return "Bad Request"
+            case 404: return "Not Found"
+            case 405: return "Method Not Allowed"
+            case 500: return "Internal Server Error"
+        }
+        return "Status"
+    }
+
+    // Helper: Value of one hex digit, -1 if not hex
+    function hexDigit(char: string): number {
+        let code = char.charCodeAt(0)
+        if (code >= 48 && code <= 57) return code - 48
+        if (code >= 65 && code <= 70) return code - 55
+        if (code >= 97 && code <= 102) return code - 87
+        return -1
+    }
+
+    // Helper: Byte of the "%XX" escape at index, -1 if there is none
+    function escapedByte(text: string, index: number): number {
+        if (text.charAt(index) != "%" || index + 2 >= text.length) return -1
+        let high = hexDigit(text.charAt(index + 1))
+        let low = hexDigit(text.charAt(index + 2))
+        return high >= 0 && low >= 0 ? high * 16 + low : -1
+    }
+
+    /**
+     * Decode "+" and "%XX" escapes of a URL or form value.
+     * A run of escapes holds UTF-8 bytes, e.g. "caf%C3%A9" is "café".
+     */
+    //% blockHidden=true
+    export function urlDecode(text: string): string {
+        let result = ""
+        let i = 0
+        while (i < text.length) {
+            let char = text.charAt(i)
+            if (char == "+") {
+                result += " "
+                i++
+            } else if (escapedByte(text, i) >= 0) {
+                let count = 0
+                while (escapedByte(text, i + count * 3) >= 0) count++
+                let bytes = pins.createBuffer(count)
+                for (let j = 0; j < count; j++) {
+                    bytes[j] = escapedByte(text, i + j * 3)
+                }
+                result += bytes.toString()
+                i += count * 3
+            } else {
+                result += char
+                i++
+            }
+        }
+        return result
+    }
+
+    /**
+     * Value of a parameter in "a=1&b=2" form, "" if missing
+     */
+    //% blockHidden=true
+    export function formValue(query: string, name: string): string {
+        let pairs = query.split("&")
+        for (let i = 0; i < pairs.length; i++) {
+            let eq = pairs[i].indexOf("=")
+            let key = eq >= 0 ? pairs[i].substr(0, eq) : pairs[i]
+            if (urlDecode(key) == name) {
+                return eq >= 0 ? urlDecode(pairs[i].substr(eq + 1)) : ""
+            }
+        }
+        return ""
+    }
+
+    // Helper: Collect request data for server links
+    function onServerData(link: number, data: string) {
+        if (!serverRunning || link < 0 || link >= SERVER_MAX_CONN) return
+        linkBuffers[link] = linkBuffers[link] + data
+    }
+
+    // Helper: Forget partial requests of closed links
+    function onServerLinkClosed(link: number) {
+        if (link >= 0 && link < SERVER_MAX_CONN) linkBuffers[link] = ""
+    }
+
+    // Helper: Take a complete request from a link buffer, false if still incomplete
+    function takeRequest(link: number): boolean {
+        let data = linkBuffers[link]
+        let headersEnd = data.indexOf("\r\n\r\n")
+        if (headersEnd < 0) return false
+
+        // Wait for the body announced by Content-Length
+        let head = data.substr(0, headersEnd)
+        let lengthIndex = head.toLowerCase().indexOf("content-length:")
+        let bodyLength = 0
+        if (lengthIndex >= 0) {
+            let lineEnd = head.indexOf("\r\n", lengthIndex)
+            bodyLength = parseDigits(lineEnd >= 0 ? head.substr(lengthIndex + 15, lineEnd - lengthIndex - 15) : head.substr(lengthIndex + 15))
+        }
+        // Content-Length counts bytes, the buffer holds decoded characters
+        let body = data.substr(headersEnd + 4)
+        if (utf8Length(body) < bodyLength) return false
+        linkBuffers[link] = ""
+
+        // Request line: "GET /led?on=1 HTTP/1.1"
+        let lineEnd = head.indexOf("\r\n")
+        let requestLine = lineEnd >= 0 ? head.substr(0, lineEnd) : head
+        let parts = requestLine.split(" ")
+        let target = parts.length > 1 ? parts[1] : "/"
+        let queryIndex = target.indexOf("?")
+
+        requestLink = link
+        requestMethod = parts[0]
+        requestPath = queryIndex >= 0 ? target.substr(0, queryIndex) : target
+        requestQuery = queryIndex >= 0 ? target.substr(queryIndex + 1) : ""
+        requestBody = body.substr(0, utf8Chars(body, bodyLength))
+        responded = false
+        return true
+    }
+
+    // Helper: Run the handler registered for the current request
+    function dispatchRequest() {
+        let pathFound = false
+        for (let i = 0; i < routePaths.length; i++) {
+            if (routePaths[i] != requestPath) continue
+            pathFound = true
+            if (routeMethods[i] == "" || routeMethods[i] == requestMethod) {
+                routeHandlers[i]()
+                if (!responded) webRespond(200, "text/plain", "")
+                return
+            }
+        }
+        if (pathFound) {
+            webRespond(405, "text/plain", "Method Not Allowed")
+        } else {
+            webRespond(404, "text/plain", "Not Found")
+        }
+    }
+
+    // Helper: Background fiber that serves complete requests
+    function startServerFiber() {
+        if (serverFiberStarted) return
+        serverFiberStarted = true
+        addLinkDataListener(onServerData)
+        addLinkClosedListener(onServerLinkClosed)
+        control.inBackground(() => {
+            while (true) {
+                if (serverRunning) {
+                    for (let link = 0; link < SERVER_MAX_CONN; link++) {
+                        if (takeRequest(link)) dispatchRequest()
+                    }
+                }
+                basic.pause(50)
+            }
+        })
+    }
+
+    // ==================== SERVER PUBLIC API ====================
+    /**
+     * Start web server
+     */
+    //% subcategory="Server"
+    //% weight=100
+    //% block="start web server on port %port"
+    //% port.defl=80
+    export function startWebServer(port: number): boolean {
+        if (!esp8266Initialized) {
+            error(EspError.NotInitialized)
+            return false
+        }
+        startServerFiber()
+
+        // Links 0 and 1 go to incoming connections from now on
+        closeKeptConnections()
+
+        lockUart()
+        let ok = enableMultiConnection()
+        // Without the limit the module accepts 5 clients, which would take the
+        // links of the Firebase listener, MQTT and HTTP requests
+        let limited = ok && atCommand("AT+CIPSERVERMAXCONN=" + SERVER_MAX_CONN).ok()
+        if (limited) {
+            ok = atCommand("AT+CIPSERVER=1," + port, "OK", 2000).ok()
+        }
+        unlockUart()
+
+        if (ok && !limited) {
+            error(EspError.ConnectFailed, "web server needs AT+CIPSERVERMAXCONN")
+            return false
+        }
+        if (!ok) error(EspError.ConnectFailed, "server port " + port)
+        serverRunning = ok
+        return ok
+    }
+
+    /**
+     * Stop web server
+     */
+    //% subcategory="Server"
+    //% weight=99
+    //% block="stop web server"
+    export function stopWebServer() {
+        serverRunning = false
+        runAtCommand("AT+CIPSERVER=0")
+        linkBuffers = ["", ""]
+    }
+
+    /**
+     * Run code when a request for a path arrives
+     */
+    //% subcategory="Server"
+    //% weight=98
+    //% block="on web request %method|path %path"
+    //% path.defl="/led"
+    export function onWebRequest(method: WebMethod, path: string, handler: () => void) {
+        routeMethods.push(methodName(method))
+        routePaths.push(path)
+        routeHandlers.push(handler)
+    }
+
+    /**
+     * Query parameter of the current request, "" if missing
+     */
+    //% subcategory="Server"
+    //% weight=97
+    //% block="query parameter %name"
+    //% name.defl="on"
+    export function webQueryParam(name: string): string {
+        return formValue(requestQuery, name)
+    }
+
+    /**
+     * Body of the current request
+     */
+    //% subcategory="Server"
+    //% weight=96
+    //% block="request body"
+    export function webRequestBody(): string {
+        return requestBody
+    }
+
+    /**
+     * Method of the current request
+     */
+    //% subcategory="Server"
+    //% weight=95
+    //% block="request method"
+    export function webRequestMethod(): string {
+        return requestMethod
+    }
+
+    /**
+     * Path of the current request
+     */
+    //% subcategory="Server"
+    //% weight=94
+    //% block="request path"
+    export function webRequestPath(): string {
+        return requestPath
+    }
+
+    /**
+     * Answer the current request and close the connection
+     */
+    //% subcategory="Server"
+    //% weight=93
+    //% block="respond status %status|type %contentType|body %body"
+    //% status.defl=200
+    //% contentType.defl="text/html"
+    //% body.defl="OK"
+    export function webRespond(status: number, contentType: string, body: string) {
+        if (requestLink < 0 || responded) return
+        responded = true
+
+        let response = "HTTP/1.1 " + status + " " + reasonPhrase(status) + "\r\n"
+        response += "Content-Type: " + contentType + "\r\n"
+        response += "Content-Length: " + utf8Length(body) + "\r\n"
+        response += "Connection: close\r\n\r\n"
+        response += body
+
+        lockUart()
+        if (atCommand("AT+CIPSEND=" + requestLink + "," + utf8Length(response), ">", 2000).ok()) {
+            serial.writeString(response)
+            getResponse("SEND OK", 3000)
+        } else {
+            error(EspError.SendFailed, "link " + requestLink)
+        }
+        atCommand("AT+CIPCLOSE=" + requestLink)
+        unlockUart()
+    }
+}
@@ -0,0 +1,233 @@
+/**
+ * Network time through the ESP8266's SNTP client.
+ * The micro:bit has no real-time clock, so the time of the last sync is kept
+ * and moved on with input.runningTime() until the next one.
+ * The date helpers are shared with Firestore timestamps.
+ */
+namespace esp8266 {
+    // ==================== TIME VARIABLES ====================
+    let ntpServer = "pool.ntp.org"
+    let timeZoneMinutes = 0
+    let timeSynced = false
+    let syncedSeconds = 0
+    let syncedAt = 0
+
+    const MONTH_NAMES = "JanFebMarAprMayJunJulAugSepOctNovDec"
+    // SNTP usually answers within a few seconds of being enabled
+    const SNTP_ATTEMPTS = 10
+
+    /**
+     * Part of the local time
+     */
+    export enum TimePart {
+        //% block="hour"
+        Hour,
+        //% block="minute"
+        Minute,
+        //% block="second"
+        Second
+    }
+
+    // ==================== DATE HELPER FUNCTIONS ====================
+    /**
+     * Two-digit text of a number
+     */
+    //% blockHidden=true
+    export function twoDigits(value: number): string {
+        return value < 10 ? "0" + value : "" + value
+    }
+
+    /**
+     * Days since 1970-01-01 of a calendar date
+     */
+    //% blockHidden=true
+    export function daysFromCivil(year: number, month: number, day: number): number {
+        if (month <= 2) year -= 1
+        let era = Math.idiv(year >= 0 ? year : year - 399, 400)
+        let yearOfEra = year - era * 400
+        let dayOfYear = Math.idiv(153 * (month > 2 ? month - 3 : month + 9) + 2, 5) + day - 1
+        let dayOfEra = yearOfEra * 365 + Math.idiv(yearOfEra, 4) - Math.idiv(yearOfEra, 100) + dayOfYear
+        return era * 146097 + dayOfEra - 719468
+    }
+
+    /**
+     * RFC 3339 text in UTC ("2024-05-01T12:00:00Z") of Unix seconds
+     */
+    //% blockHidden=true
+    export function isoTimestamp(unixSeconds: number): string {
+        let seconds = Math.floor(unixSeconds)
+        let days = Math.floor(seconds / 86400)
+        let secondOfDay = seconds - days * 86400
+
+        // Calendar date of a day count, see daysFromCivil
+        let z = days + 719468
+        let era = Math.idiv(z >= 0 ? z : z - 146096, 146097)
+        let dayOfEra = z - era * 146097
+        let yearOfEra = Math.idiv(dayOfEra - Math.idiv(dayOfEra, 1460) + Math.idiv(dayOfEra, 36524) - Math.idiv(dayOfEra, 146096), 365)
+        let dayOfYear = dayOfEra - (365 * yearOfEra + Math.idiv(yearOfEra, 4) - Math.idiv(yearOfEra, 100))
+        let monthIndex = Math.idiv(5 * dayOfYear + 2, 153)
+        let day = dayOfYear - Math.idiv(153 * monthIndex + 2, 5) + 1
+        let month = monthIndex < 10 ? monthIndex + 3 : monthIndex - 9
+        let year = yearOfEra + era * 400 + (month <= 2 ? 1 : 0)
+
+        return year + "-" + twoDigits(month) + "-" + twoDigits(day) + "T" +
+            twoDigits(Math.idiv(secondOfDay, 3600)) + ":" + twoDigits(Math.idiv(secondOfDay, 60) % 60) + ":" +
+            twoDigits(secondOfDay % 60) + "Z"
+    }
+
+    /**
+     * Unix seconds of an RFC 3339 UTC text, fractions are dropped; 0 if not a timestamp
+     */
+    //% blockHidden=true
+    export function parseIsoTimestamp(text: string): number {
+        if (text.length < 19 || text.charAt(4) != "-" || text.charAt(10) != "T") return 0
+        let days = daysFromCivil(parseDigits(text.substr(0, 4)), parseDigits(text.substr(5, 2)), parseDigits(text.substr(8, 2)))
+        return days * 86400 + parseDigits(text.substr(11, 2)) * 3600 + parseDigits(text.substr(14, 2)) * 60 + parseDigits(text.substr(17, 2))
+    }
+
+    // ==================== TIME HELPER FUNCTIONS ====================
+    // Helper: Unix seconds of "+CIPSNTPTIME:Thu Aug  4 14:48:05 2016", 0 before the first sync
+    function parseSntpTime(line: string): number {
+        let parts: string[] = []
+        let words = line.substr(line.indexOf(":") + 1).split(" ")
+        for (let i = 0; i < words.length; i++) {
+            if (words[i] != "") parts.push(words[i])
+        }
+        if (parts.length < 5) return 0
+
+        // The module reports 1970 until it has heard from the server
+        let year = parseDigits(parts[4])
+        if (year <= 1970) return 0
+        let monthIndex = MONTH_NAMES.indexOf(parts[1])
+        let clock = parts[3].split(":")
+        if (monthIndex < 0 || clock.length < 3) return 0
+        let month = Math.idiv(monthIndex, 3) + 1
+
+        return daysFromCivil(year, month, parseDigits(parts[2])) * 86400 +
+            parseDigits(clock[0]) * 3600 + parseDigits(clock[1]) * 60 + parseDigits(clock[2])
+    }
+
+    // Helper: Local seconds since 1970, i.e. Unix time moved by the time zone
+    function localSeconds(): number {
+        return unixTime() + timeZoneMinutes * 60
+    }
+
+    /**
+     * Unix time in milliseconds as JSON number text, "" before the first sync.
+     * Milliseconds since 1970 do not fit a small integer, so the text is put together.
+     */
+    //% blockHidden=true
+    export function unixMillisText(): string {
+        return unixMillisTextAt(input.runningTime())
+    }
+
+    /**
+     * Like unixMillisText, for an earlier input.runningTime(), even one before the sync
+     */
+    //% blockHidden=true
+    export function unixMillisTextAt(runningTime: number): string {
+        if (!timeSynced) return ""
+        let elapsed = runningTime - syncedAt
+        let seconds = Math.floor(elapsed / 1000)
+        let millis = elapsed - seconds * 1000
+        return "" + (syncedSeconds + seconds) + (millis < 100 ? "0" : "") + twoDigits(millis)
+    }
+
+    // ==================== TIME PUBLIC API ====================
+    /**
+     * Set the time zone in hours from UTC (e.g. 7 for WIB, 5.5 for India) and the SNTP server
+     */
+    //% subcategory="Time"
+    //% weight=100
+    //% block="network time zone UTC %offset|server %server"
+    //% offset.defl=7 offset.min=-12 offset.max=14
+    //% server.defl="pool.ntp.org"
+    export function setTimeZone(offset: number, server: string) {
+        timeZoneMinutes = Math.round(offset * 60)
+        if (server != "") ntpServer = server
+    }
+
+    /**
+     * Get the time from the SNTP server; the clock keeps running until the next sync
+     */
+    //% subcategory="Time"
+    //% weight=99
+    //% block="sync network time"
+    export function syncNetworkTime(): boolean {
+        if (!waitForWifi()) {
+            error(EspError.WifiDown)
+            return false
+        }
+
+        // The module works in UTC; the time zone is applied here so it may be a half hour
+        if (!runAtCommand("AT+CIPSNTPCFG=1,0,\"" + ntpServer + "\"").ok()) {
+            error(EspError.ConnectFailed, "SNTP")
+            return false
+        }
+        for (let attempt = 0; attempt < SNTP_ATTEMPTS; attempt++) {
+            let response = runAtCommand("AT+CIPSNTPTIME?", "OK", 2000)
+            let seconds = parseSntpTime(response.find("+CIPSNTPTIME:"))
+            if (seconds > 0) {
+                syncedSeconds = seconds
+                syncedAt = input.runningTime()
+                timeSynced = true
+                return true
+            }
+            basic.pause(1000)
+        }
+        error(EspError.Timeout, "SNTP")
+        return false
+    }
+
+    /**
+     * True once the time has been synced
+     */
+    //% subcategory="Time"
+    //% weight=98
+    //% block="network time synced"
+    export function isTimeSynced(): boolean {
+        return timeSynced
+    }
+
+    /**
+     * Seconds since 1970-01-01 UTC, 0 before the first sync
+     */
+    //% subcategory="Time"
+    //% weight=97
+    //% block="Unix time"
+    export function unixTime(): number {
+        if (!timeSynced) return 0
+        return syncedSeconds + Math.idiv(input.runningTime() - syncedAt, 1000)
+    }
+
+    /**
+     * Local time as ISO-8601 text, e.g. "2024-05-01T19:00:00+07:00"; "" before the first sync
+     */
+    //% subcategory="Time"
+    //% weight=96
+    //% block="time as ISO text"
+    export function isoTime(): string {
+        if (!timeSynced) return ""
+        let text = isoTimestamp(localSeconds())
+        if (timeZoneMinutes == 0) return text
+
+        let minutes = Math.abs(timeZoneMinutes)
+        let zone = (timeZoneMinutes < 0 ? "-" : "+") + twoDigits(Math.idiv(minutes, 60)) + ":" + twoDigits(minutes % 60)
+        return text.substr(0, text.length - 1) + zone
+    }
+
+    /**
+     * Hour, minute or second of the local time, 0 before the first sync
+     */
+    //% subcategory="Time"
+    //% weight=95
+    //% block="time %part"
+    export function timePart(part: TimePart): number {
+        if (!timeSynced) return 0
+        let secondOfDay = localSeconds() % 86400
+        if (secondOfDay < 0) secondOfDay += 86400
+        if (part == TimePart.Hour) return Math.idiv(secondOfDay, 3600)
+        if (part == TimePart.Minute) return Math.idiv(secondOfDay, 60) % 60
+        return secondOfDay % 60
+    }
+}
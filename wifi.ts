@@ -0,0 +1,545 @@
+/**
+ * WiFi supervision: stored networks, automatic reconnect, scanning,
+ * station IP configuration and access point mode.
+ */
+namespace esp8266 {
+    // ==================== WIFI VARIABLES ====================
+    let profileSsids: string[] = []
+    let profilePasswords: string[] = []
+    let keepConnected = false
+    let supervisorStarted = false
+    let reconnecting = false
+    let everConnected = false
+    let reconnectCount = 0
+    //% blockHidden=true
+    export let reconnectWaitTime = 5000
+    let lastScan: WifiNetwork[] = []
+    let staticIp = ""
+    let staticGateway = ""
+    let staticNetmask = ""
+    let stationHostname = ""
+    let dnsPrimary = ""
+    let dnsSecondary = ""
+    //% blockHidden=true
+    export let wifiMode = 1
+
+    const MIN_BACKOFF = 1000
+    const MAX_BACKOFF = 60000
+
+    /**
+     * ESP8266 WiFi mode (AT+CWMODE)
+     */
+    export enum WifiMode {
+        //% block="station"
+        Station = 1,
+        //% block="access point"
+        AccessPoint = 2,
+        //% block="station + access point"
+        StationAndAccessPoint = 3
+    }
+
+    /**
+     * WiFi encryption reported by a scan
+     */
+    export enum WifiAuthMode {
+        //% block="open"
+        Open = 0,
+        //% block="WEP"
+        Wep = 1,
+        //% block="WPA PSK"
+        WpaPsk = 2,
+        //% block="WPA2 PSK"
+        Wpa2Psk = 3,
+        //% block="WPA/WPA2 PSK"
+        WpaWpa2Psk = 4,
+        //% block="WPA2 Enterprise"
+        Wpa2Enterprise = 5
+    }
+
+    /**
+     * Access point seen in a scan
+     */
+    export class WifiNetwork {
+        ssid: string
+        rssi: number
+        channel: number
+        authMode: number
+
+        constructor(ssid: string, rssi: number, channel: number, authMode: number) {
+            this.ssid = ssid
+            this.rssi = rssi
+            this.channel = channel
+            this.authMode = authMode
+        }
+    }
+
+    // ==================== WIFI HELPER FUNCTIONS ====================
+    // Helper: Parse a signed integer such as "-62"
+    function parseSigned(str: string): number {
+        let value = parseDigits(str)
+        return str.indexOf("-") >= 0 ? -value : value
+    }
+
+    // Helper: Parse '+CWLAP:(<ecn>,"<ssid>",<rssi>,"<mac>",<channel>,...)'
+    function parseCwlapLine(line: string): WifiNetwork {
+        let open = line.indexOf("(")
+        let quoteStart = line.indexOf("\"", open)
+        if (open < 0 || quoteStart < 0) return null
+        let authMode = parseDigits(line.substr(open + 1, quoteStart - open - 1))
+
+        // SSID may contain commas, so look for the closing quote before ",<rssi>"
+        let quoteEnd = line.indexOf("\",", quoteStart + 1)
+        if (quoteEnd < 0) return null
+        let ssid = line.substr(quoteStart + 1, quoteEnd - quoteStart - 1)
+
+        // Remaining fields: <rssi>,"<mac>",<channel>,...
+        let fields = line.substr(quoteEnd + 2).split(",")
+        let rssi = parseSigned(fields[0])
+        let channel = fields.length > 2 ? parseDigits(fields[2]) : 0
+        return new WifiNetwork(ssid, rssi, channel, authMode)
+    }
+
+    /**
+     * Scan for access points with AT+CWLAP
+     */
+    //% blockHidden=true
+    export function scanNetworks(): WifiNetwork[] {
+        let networks: WifiNetwork[] = []
+        if (!esp8266Initialized) return networks
+
+        let response = runAtCommand("AT+CWLAP", "OK", 10000)
+        if (!response.ok()) return networks
+
+        for (let i = 0; i < response.lines.length; i++) {
+            if (response.lines[i].indexOf("+CWLAP:") != 0) continue
+            let network = parseCwlapLine(response.lines[i])
+            if (network) networks.push(network)
+        }
+        return networks
+    }
+
+    // Helper: Index of a stored network, -1 if unknown
+    function profileIndex(ssid: string): number {
+        for (let i = 0; i < profileSsids.length; i++) {
+            if (profileSsids[i] == ssid) return i
+        }
+        return -1
+    }
+
+    // Helper: Stored networks ordered by signal strength, unseen ones last
+    function profilesByStrength(): number[] {
+        let order: number[] = []
+        let strengths: number[] = []
+        let networks = scanNetworks()
+
+        for (let i = 0; i < profileSsids.length; i++) {
+            let rssi = -1000
+            for (let j = 0; j < networks.length; j++) {
+                if (networks[j].ssid == profileSsids[i] && networks[j].rssi > rssi) {
+                    rssi = networks[j].rssi
+                }
+            }
+
+            // Insertion sort, strongest first
+            let pos = 0
+            while (pos < strengths.length && strengths[pos] >= rssi) pos++
+            order.insertAt(pos, i)
+            strengths.insertAt(pos, rssi)
+        }
+        return order
+    }
+
+    /**
+     * Try every stored network, strongest first
+     */
+    //% blockHidden=true
+    export function connectToBestNetwork(): boolean {
+        let order = profilesByStrength()
+        for (let i = 0; i < order.length; i++) {
+            if (isWifiConnected()) break
+            connectWiFi(profileSsids[order[i]], profilePasswords[order[i]])
+        }
+        return isWifiConnected()
+    }
+
+    // Helper: Background fiber that reconnects with exponential backoff
+    function startSupervisor() {
+        if (supervisorStarted) return
+        supervisorStarted = true
+        control.inBackground(() => {
+            let backoff = MIN_BACKOFF
+            while (true) {
+                if (isWifiConnected()) {
+                    everConnected = true
+                    reconnecting = false
+                    backoff = MIN_BACKOFF
+                } else if (keepConnected && esp8266Initialized && profileSsids.length > 0) {
+                    reconnecting = true
+                    if (connectToBestNetwork()) {
+                        if (everConnected) reconnectCount++
+                        continue
+                    }
+                    basic.pause(backoff)
+                    backoff = Math.min(backoff * 2, MAX_BACKOFF)
+                    continue
+                } else {
+                    reconnecting = false
+                }
+                basic.pause(1000)
+            }
+        })
+    }
+
+    // Helper: Network from the last scan, null if index is out of range
+    function scannedNetwork(index: number): WifiNetwork {
+        if (index < 0 || index >= lastScan.length) return null
+        return lastScan[index]
+    }
+
+    // Helper: Text between the first pair of quotes
+    function quotedValue(line: string): string {
+        let start = line.indexOf("\"")
+        if (start < 0) return ""
+        let end = line.indexOf("\"", start + 1)
+        if (end < 0) return ""
+        return line.substr(start + 1, end - start - 1)
+    }
+
+    // Helper: Query a value such as '+CIFSR:STAIP,"<ip>"'
+    function queryValue(command: string, prefix: string): string {
+        if (!esp8266Initialized) return ""
+        return quotedValue(runAtCommand(command, "OK", 2000).find(prefix))
+    }
+
+    /**
+     * Apply hostname, static IP or DHCP and DNS servers.
+     * Called before every (re)connect so settings survive link drops.
+     */
+    //% blockHidden=true
+    export function applyStationConfig() {
+        if (stationHostname != "") {
+            runAtCommand("AT+CWHOSTNAME=\"" + stationHostname + "\"")
+        }
+        if (staticIp != "") {
+            runAtCommand("AT+CIPSTA=\"" + staticIp + "\",\"" + staticGateway + "\",\"" + staticNetmask + "\"")
+        }
+        if (dnsPrimary != "") {
+            let command = "AT+CIPDNS_CUR=1,\"" + dnsPrimary + "\""
+            if (dnsSecondary != "") command += ",\"" + dnsSecondary + "\""
+            runAtCommand(command)
+        }
+    }
+
+    /**
+     * Wait briefly for a reconnect in progress. Returns WiFi status.
+     */
+    //% blockHidden=true
+    export function waitForWifi(): boolean {
+        let start = input.runningTime()
+        while (!isWifiConnected() && reconnecting && input.runningTime() - start < reconnectWaitTime) {
+            basic.pause(100)
+        }
+        return isWifiConnected()
+    }
+
+    // ==================== WIFI PUBLIC API ====================
+    /**
+     * Remember a network for automatic reconnect
+     */
+    //% subcategory="WiFi"
+    //% weight=100
+    //% block="add WiFi network|SSID %ssid|Password %password"
+    //% ssid.defl="YourWiFi"
+    //% password.defl="YourPassword"
+    export function addWiFiNetwork(ssid: string, password: string) {
+        let index = profileIndex(ssid)
+        if (index >= 0) {
+            profilePasswords[index] = password
+        } else {
+            profileSsids.push(ssid)
+            profilePasswords.push(password)
+        }
+    }
+
+    /**
+     * Reconnect automatically when the WiFi link drops
+     */
+    //% subcategory="WiFi"
+    //% weight=99
+    //% block="keep WiFi connected %enabled"
+    //% enabled.defl=true
+    export function keepWiFiConnected(enabled: boolean) {
+        keepConnected = enabled
+        if (enabled) startSupervisor()
+    }
+
+    /**
+     * Number of automatic reconnects since start
+     */
+    //% subcategory="WiFi"
+    //% weight=98
+    //% block="WiFi reconnect count"
+    export function wifiReconnectCount(): number {
+        return reconnectCount
+    }
+
+    /**
+     * Check if an automatic reconnect is in progress
+     */
+    //% subcategory="WiFi"
+    //% weight=97
+    //% block="WiFi reconnecting"
+    export function isWifiReconnecting(): boolean {
+        return reconnecting
+    }
+
+    /**
+     * Scan for WiFi networks and return their names
+     */
+    //% subcategory="WiFi"
+    //% weight=90
+    //% block="scan WiFi networks"
+    export function scanWiFi(): string[] {
+        lastScan = scanNetworks()
+        let ssids: string[] = []
+        for (let i = 0; i < lastScan.length; i++) {
+            ssids.push(lastScan[i].ssid)
+        }
+        return ssids
+    }
+
+    /**
+     * Number of networks found by the last scan
+     */
+    //% subcategory="WiFi"
+    //% weight=89
+    //% block="scanned network count"
+    export function scannedNetworkCount(): number {
+        return lastScan.length
+    }
+
+    /**
+     * Signal strength (dBm) of a network from the last scan
+     */
+    //% subcategory="WiFi"
+    //% weight=88
+    //% block="scanned network %index|RSSI"
+    export function scannedNetworkRssi(index: number): number {
+        let network = scannedNetwork(index)
+        return network ? network.rssi : 0
+    }
+
+    /**
+     * Channel of a network from the last scan
+     */
+    //% subcategory="WiFi"
+    //% weight=87
+    //% block="scanned network %index|channel"
+    export function scannedNetworkChannel(index: number): number {
+        let network = scannedNetwork(index)
+        return network ? network.channel : 0
+    }
+
+    /**
+     * Encryption of a network from the last scan (see WifiAuthMode)
+     */
+    //% subcategory="WiFi"
+    //% weight=86
+    //% block="scanned network %index|encryption"
+    export function scannedNetworkAuth(index: number): number {
+        let network = scannedNetwork(index)
+        return network ? network.authMode : 0
+    }
+
+    /**
+     * Encryption value to compare with "scanned network encryption"
+     */
+    //% subcategory="WiFi"
+    //% weight=85
+    //% block="%mode"
+    export function wifiAuthMode(mode: WifiAuthMode): number {
+        return mode
+    }
+
+    /**
+     * Scan and check if a network is in range
+     */
+    //% subcategory="WiFi"
+    //% weight=84
+    //% block="WiFi network %ssid|found"
+    //% ssid.defl="YourWiFi"
+    export function isNetworkFound(ssid: string): boolean {
+        lastScan = scanNetworks()
+        for (let i = 0; i < lastScan.length; i++) {
+            if (lastScan[i].ssid == ssid) return true
+        }
+        return false
+    }
+
+    /**
+     * Signal strength (dBm) of the current connection, 0 if not connected
+     */
+    //% subcategory="WiFi"
+    //% weight=83
+    //% block="WiFi signal strength (RSSI)"
+    export function wifiRssi(): number {
+        if (!esp8266Initialized || !isWifiConnected()) return 0
+
+        // +CWJAP:"<ssid>","<bssid>",<channel>,<rssi>
+        let line = runAtCommand("AT+CWJAP?", "OK", 2000).find("+CWJAP:")
+        let quoteEnd = line.indexOf("\",", 8)
+        if (quoteEnd < 0) return 0
+        let fields = line.substr(quoteEnd + 2).split(",")
+        return fields.length > 2 ? parseSigned(fields[2]) : 0
+    }
+
+    // ==================== STATION CONFIG ====================
+    /**
+     * IP address of the station interface
+     */
+    //% subcategory="WiFi"
+    //% weight=80
+    //% block="WiFi IP address"
+    export function stationIp(): string {
+        return queryValue("AT+CIFSR", "+CIFSR:STAIP")
+    }
+
+    /**
+     * MAC address of the station interface
+     */
+    //% subcategory="WiFi"
+    //% weight=79
+    //% block="WiFi MAC address"
+    export function stationMac(): string {
+        return queryValue("AT+CIFSR", "+CIFSR:STAMAC")
+    }
+
+    /**
+     * Gateway of the station interface
+     */
+    //% subcategory="WiFi"
+    //% weight=78
+    //% block="WiFi gateway"
+    export function stationGateway(): string {
+        return queryValue("AT+CIPSTA?", "+CIPSTA:gateway")
+    }
+
+    /**
+     * Netmask of the station interface
+     */
+    //% subcategory="WiFi"
+    //% weight=77
+    //% block="WiFi netmask"
+    export function stationNetmask(): string {
+        return queryValue("AT+CIPSTA?", "+CIPSTA:netmask")
+    }
+
+    /**
+     * Use a fixed IP address instead of DHCP
+     */
+    //% subcategory="WiFi"
+    //% weight=76
+    //% block="set static IP %ip|gateway %gateway|netmask %netmask"
+    //% ip.defl="192.168.1.50"
+    //% gateway.defl="192.168.1.1"
+    //% netmask.defl="255.255.255.0"
+    export function setStaticIp(ip: string, gateway: string, netmask: string) {
+        staticIp = ip
+        staticGateway = gateway
+        staticNetmask = netmask
+        if (esp8266Initialized) applyStationConfig()
+    }
+
+    /**
+     * Get IP address from DHCP again
+     */
+    //% subcategory="WiFi"
+    //% weight=75
+    //% block="use DHCP"
+    export function enableDhcp() {
+        staticIp = ""
+        staticGateway = ""
+        staticNetmask = ""
+        if (esp8266Initialized) runAtCommand("AT+CWDHCP=1,1")
+    }
+
+    /**
+     * Name the device reports to the DHCP server
+     */
+    //% subcategory="WiFi"
+    //% weight=74
+    //% block="set hostname %name"
+    //% name.defl="microbit"
+    export function setHostname(name: string) {
+        stationHostname = name
+        if (esp8266Initialized) applyStationConfig()
+    }
+
+    /**
+     * Use custom DNS servers (secondary may be empty)
+     */
+    //% subcategory="WiFi"
+    //% weight=73
+    //% block="set DNS servers %primary|%secondary"
+    //% primary.defl="8.8.8.8"
+    //% secondary.defl="1.1.1.1"
+    export function setDnsServers(primary: string, secondary: string) {
+        dnsPrimary = primary
+        dnsSecondary = secondary
+        if (esp8266Initialized) applyStationConfig()
+    }
+
+    // ==================== ACCESS POINT ====================
+    /**
+     * Set WiFi mode: station, access point or both
+     */
+    //% subcategory="WiFi"
+    //% weight=70
+    //% block="set WiFi mode %mode"
+    export function setWifiMode(mode: WifiMode) {
+        if (!esp8266Initialized) {
+            error(EspError.NotInitialized)
+            return
+        }
+        if (runAtCommand("AT+CWMODE=" + mode).ok()) {
+            wifiMode = mode
+        } else {
+            error(EspError.ModeFailed)
+        }
+    }
+
+    /**
+     * Start an access point. Leave password empty for an open network,
+     * otherwise it needs at least 8 characters.
+     */
+    //% subcategory="WiFi"
+    //% weight=69
+    //% block="start access point|SSID %ssid|Password %password|channel %channel"
+    //% ssid.defl="microbit"
+    //% password.defl="12345678"
+    //% channel.defl=5
+    //% channel.min=1 channel.max=13
+    export function startAccessPoint(ssid: string, password: string, channel: number) {
+        // Keep the station link if there is one
+        if (wifiMode == WifiMode.Station) {
+            setWifiMode(WifiMode.StationAndAccessPoint)
+        }
+        let encryption = password == "" ? WifiAuthMode.Open : WifiAuthMode.Wpa2Psk
+        let response = runAtCommand(
+            "AT+CWSAP=" + atQuote(ssid) + "," + atQuote(password) + "," + channel + "," + encryption,
+            "OK",
+            5000
+        )
+        if (!response.ok()) error(EspError.ModeFailed, ssid)
+    }
+
+    /**
+     * IP address of the access point interface
+     */
+    //% subcategory="WiFi"
+    //% weight=68
+    //% block="access point IP address"
+    export function accessPointIp(): string {
+        return queryValue("AT+CIFSR", "+CIFSR:APIP")
+    }
+}